@@ -0,0 +1,122 @@
+/**
+ * Links upstream identities (LINE, OIDC, ...) to one Supabase account.
+ *
+ * Table IDENTITY_LINK_TABLE (default "identity_links"), see README:
+ *   - provider: IdentityProviderId
+ *   - subject:  the provider's user ID
+ *   - user_id:  auth.users id
+ *
+ * A LINE row is written on every LINE login; other providers are linked from /account.
+ * Sign-in still goes through the account's LINE identity (AUTH_STRATEGY signs in by LINE user ID),
+ * so an OIDC identity only works once it is linked to an account that has one.
+ * Rows are read and written with SUPABASE_SERVICE_ROLE_KEY, before the user is signed in.
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import type { IdentityProviderId } from "./identity-providers";
+import { logger } from "./logger";
+
+export const DEFAULT_IDENTITY_LINK_TABLE = "identity_links";
+
+export type IdentityLink = {
+  provider: IdentityProviderId;
+  subject: string;
+  supabaseUserId: string;
+  createdAt: string;
+};
+
+export interface IdentityLinkStore {
+  /** The Supabase user an identity is linked to, or null if it is not linked. */
+  find(provider: IdentityProviderId, subject: string): Promise<string | null>;
+  list(supabaseUserId: string): Promise<IdentityLink[]>;
+  /** Returns false if the identity is already linked to another account or the write failed. */
+  link(supabaseUserId: string, provider: IdentityProviderId, subject: string): Promise<boolean>;
+  /** Points the identity at the account, replacing an earlier link (for LINE, which AUTH_STRATEGY resolves). */
+  upsert(supabaseUserId: string, provider: IdentityProviderId, subject: string): Promise<void>;
+  unlink(supabaseUserId: string, provider: IdentityProviderId, subject: string): Promise<boolean>;
+}
+
+type IdentityLinkRow = { provider: IdentityProviderId; subject: string; user_id: string; created_at: string };
+
+/**
+ * Creates the store, or null when SUPABASE_SERVICE_ROLE_KEY is not set (linking disabled).
+ */
+export function createIdentityLinkStore(env: Env): IdentityLinkStore | null {
+  if (!env.SUPABASE_SERVICE_ROLE_KEY) return null;
+
+  const admin = createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  const table = env.IDENTITY_LINK_TABLE || DEFAULT_IDENTITY_LINK_TABLE;
+
+  const find = async (provider: IdentityProviderId, subject: string): Promise<string | null> => {
+    const { data, error } = await admin
+      .from(table)
+      .select("user_id")
+      .eq("provider", provider)
+      .eq("subject", subject)
+      .maybeSingle();
+    if (error) {
+      logger.error("Identity link lookup failed", { error: error.message });
+      return null;
+    }
+    return (data as { user_id: string } | null)?.user_id ?? null;
+  };
+
+  return {
+    find,
+
+    async list(supabaseUserId) {
+      const { data, error } = await admin
+        .from(table)
+        .select("provider, subject, user_id, created_at")
+        .eq("user_id", supabaseUserId)
+        .order("created_at");
+      if (error) {
+        logger.error("Identity link list failed", { error: error.message });
+        return [];
+      }
+      return (data as IdentityLinkRow[]).map((row) => ({
+        provider: row.provider,
+        subject: row.subject,
+        supabaseUserId: row.user_id,
+        createdAt: row.created_at,
+      }));
+    },
+
+    async link(supabaseUserId, provider, subject) {
+      const linkedTo = await find(provider, subject);
+      if (linkedTo) return linkedTo === supabaseUserId;
+
+      const { error } = await admin.from(table).insert({ provider, subject, user_id: supabaseUserId });
+      if (error) {
+        logger.error("Identity link failed", { error: error.message });
+        return false;
+      }
+      return true;
+    },
+
+    async upsert(supabaseUserId, provider, subject) {
+      const { error } = await admin
+        .from(table)
+        .upsert({ provider, subject, user_id: supabaseUserId }, { onConflict: "provider,subject" });
+      if (error) {
+        logger.error("Identity link update failed", { error: error.message });
+      }
+    },
+
+    async unlink(supabaseUserId, provider, subject) {
+      const { error } = await admin
+        .from(table)
+        .delete()
+        .eq("provider", provider)
+        .eq("subject", subject)
+        .eq("user_id", supabaseUserId);
+      if (error) {
+        logger.error("Identity unlink failed", { error: error.message });
+        return false;
+      }
+      return true;
+    },
+  };
+}
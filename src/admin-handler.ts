@@ -0,0 +1,185 @@
+/**
+ * Admin routes (Hono router), mounted under /admin by the LINE handler.
+ *
+ * Routes:
+ *   GET    /admin/audit-log    — Export the audit log of all users as JSON or CSV
+ *   GET    /admin/tenants/{id} — Show a tenant's config (secrets redacted)
+ *   PUT    /admin/tenants/{id} — Create or replace a tenant's config (see tenants.ts)
+ *   DELETE /admin/tenants/{id} — Remove a tenant and its hostnames
+ *
+ * Requires `Authorization: Bearer {ADMIN_API_TOKEN}`; the audit export also needs
+ * SUPABASE_SERVICE_ROLE_KEY and the tenant routes TENANT_KV. Not served to tenants.
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import { Hono } from "hono";
+import { createMiddleware } from "hono/factory";
+import { DEFAULT_AUDIT_LOG_TABLE } from "./audit";
+import { logger } from "./logger";
+import { createTenantStore, describeTenantConfig, isTenantId, tenantConfigSchema } from "./tenants";
+
+const EXPORT_PAGE_SIZE = 1000;
+const MAX_EXPORT_ROWS = 50_000;
+
+const AUDIT_COLUMNS = [
+  "id",
+  "created_at",
+  "user_id",
+  "line_user_id",
+  "client_id",
+  "tool",
+  "arguments",
+  "duration_ms",
+  "outcome",
+  "error",
+] as const;
+
+/**
+ * Requires `Authorization: Bearer {ADMIN_API_TOKEN}`; 404 when the token is not configured.
+ * Also guards /readyz (see health-handler.ts).
+ */
+export const requireAdminToken = createMiddleware<{ Bindings: Env }>(async (c, next) => {
+  const expected = c.env.ADMIN_API_TOKEN;
+  if (!expected) {
+    return c.text("Admin API is not configured", 404);
+  }
+
+  const auth = c.req.header("Authorization") ?? "";
+  if (!auth.startsWith("Bearer ") || !(await timingSafeEqual(auth.slice(7), expected))) {
+    return c.text("Unauthorized", 401);
+  }
+
+  await next();
+});
+
+const app = new Hono<{ Bindings: Env }>();
+
+// Tenants are managed on the Worker's own host, never through a tenant's path or hostname
+app.use("*", async (c, next) => {
+  if (c.env.TENANT_ID) {
+    return c.notFound();
+  }
+  await next();
+});
+
+app.use("*", requireAdminToken);
+
+// ── GET /admin/audit-log?from=&to=&user_id=&tool=&format=json|csv&limit= ──
+
+app.get("/audit-log", async (c) => {
+  if (!c.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return c.text("SUPABASE_SERVICE_ROLE_KEY is required for the audit export", 501);
+  }
+
+  const { from, to, user_id: userId, tool, format = "json" } = c.req.query();
+  const limit = Math.min(Number(c.req.query("limit")) || MAX_EXPORT_ROWS, MAX_EXPORT_ROWS);
+  if (format !== "json" && format !== "csv") {
+    return c.text("format must be json or csv", 400);
+  }
+
+  const admin = createClient(c.env.SUPABASE_URL, c.env.SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  const table = c.env.AUDIT_LOG_TABLE || DEFAULT_AUDIT_LOG_TABLE;
+
+  const rows: Record<string, unknown>[] = [];
+  while (rows.length < limit) {
+    let query = admin.from(table).select(AUDIT_COLUMNS.join(", "));
+    if (from) query = query.gte("created_at", from);
+    if (to) query = query.lt("created_at", to);
+    if (userId) query = query.eq("user_id", userId);
+    if (tool) query = query.eq("tool", tool);
+
+    const start = rows.length;
+    const end = Math.min(start + EXPORT_PAGE_SIZE, limit) - 1;
+    const { data, error } = await query.order("created_at").range(start, end);
+    if (error) {
+      logger.error("Audit export failed", { error: error.message });
+      return c.text("Failed to read audit log", 500);
+    }
+
+    const page = data as unknown as Record<string, unknown>[];
+    rows.push(...page);
+    if (page.length < end - start + 1) break;
+  }
+
+  if (format === "csv") {
+    const lines = [
+      AUDIT_COLUMNS.join(","),
+      ...rows.map((row) => AUDIT_COLUMNS.map((column) => csvCell(row[column])).join(",")),
+    ];
+    return new Response(lines.join("\n"), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": 'attachment; filename="mcp_audit_log.csv"',
+      },
+    });
+  }
+
+  return c.json(rows);
+});
+
+// ── /admin/tenants/{id} — Tenant configs ──
+
+app.get("/tenants/:id", async (c) => {
+  const store = createTenantStore(c.env);
+  if (!store) {
+    return c.text("TENANT_KV is required for tenants", 501);
+  }
+
+  const config = await store.get(c.req.param("id"));
+  return config ? c.json(describeTenantConfig(config)) : c.text("Tenant not found", 404);
+});
+
+app.put("/tenants/:id", async (c) => {
+  const store = createTenantStore(c.env);
+  if (!store) {
+    return c.text("TENANT_KV is required for tenants", 501);
+  }
+
+  const id = c.req.param("id");
+  if (!isTenantId(id)) {
+    return c.text("Tenant IDs are lowercase letters, digits and hyphens (up to 63)", 400);
+  }
+  const result = tenantConfigSchema.safeParse(await c.req.json().catch(() => null));
+  if (!result.success) {
+    return c.json({ error: "invalid_config", issues: result.error.issues }, 400);
+  }
+
+  const taken = await store.put(id, result.data);
+  if (taken.length > 0) {
+    return c.json({ error: "hostname_taken", hostnames: taken }, 409);
+  }
+  logger.info("Tenant saved", { tenantId: id, hostnames: result.data.hostnames });
+  return c.json(describeTenantConfig(result.data));
+});
+
+app.delete("/tenants/:id", async (c) => {
+  const store = createTenantStore(c.env);
+  if (!store) {
+    return c.text("TENANT_KV is required for tenants", 501);
+  }
+
+  await store.delete(c.req.param("id"));
+  logger.info("Tenant deleted", { tenantId: c.req.param("id") });
+  return c.body(null, 204);
+});
+
+// ── Helpers ──
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function timingSafeEqual(a: string, b: string): Promise<boolean> {
+  // Hash first so inputs of different lengths still compare in constant time
+  const [hashA, hashB] = await Promise.all([
+    crypto.subtle.digest("SHA-256", new TextEncoder().encode(a)),
+    crypto.subtle.digest("SHA-256", new TextEncoder().encode(b)),
+  ]);
+  return crypto.subtle.timingSafeEqual(hashA, hashB);
+}
+
+export { app as AdminHandler };
@@ -0,0 +1,199 @@
+/**
+ * Audit log of tool invocations.
+ *
+ * Every call is recorded in the MCP Durable Object's SQLite storage, then
+ * forwarded in batches to the Supabase `mcp_audit_log` table (AUDIT_LOG_TABLE)
+ * with the user's own client, so RLS applies to the inserts as well.
+ */
+
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { logger } from "./logger";
+import type { ToolMiddleware } from "./tools/registry";
+
+export const DEFAULT_AUDIT_LOG_TABLE = "mcp_audit_log";
+
+// Forward pending entries this long after the first unforwarded call.
+export const AUDIT_FORWARD_INTERVAL_MS = 60_000;
+
+const FORWARD_BATCH_SIZE = 100;
+const LOCAL_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_ARG_STRING_LENGTH = 500;
+const SECRET_KEY_PATTERN = /token|secret|password|passwd|api[-_]?key|authorization|cookie/i;
+
+export type AuditOutcome = "success" | "error";
+
+export type AuditEntry = {
+  id: string;
+  createdAt: number; // Unix ms
+  lineUserId: string;
+  supabaseUserId: string;
+  clientId: string | null;
+  tool: string;
+  arguments: unknown;
+  durationMs: number;
+  outcome: AuditOutcome;
+  error: string | null;
+};
+
+export interface AuditLog {
+  record(entry: Omit<AuditEntry, "id">): void;
+  /** Sends up to one batch of unforwarded entries; returns how many remain. */
+  forward(client: SupabaseClient, table: string): Promise<number>;
+}
+
+/**
+ * Audit log backed by Durable Object SQLite storage (e.g. `this.ctx.storage` in McpAgent).
+ * `onRecord` is called after each write, e.g. to schedule forwarding.
+ */
+export function createDurableObjectAuditLog(storage: DurableObjectStorage, onRecord?: () => void): AuditLog {
+  storage.sql.exec(`CREATE TABLE IF NOT EXISTS audit_log (
+    id TEXT PRIMARY KEY,
+    created_at INTEGER NOT NULL,
+    line_user_id TEXT NOT NULL,
+    supabase_user_id TEXT NOT NULL,
+    client_id TEXT,
+    tool TEXT NOT NULL,
+    arguments TEXT NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    outcome TEXT NOT NULL,
+    error TEXT,
+    forwarded INTEGER NOT NULL DEFAULT 0
+  )`);
+
+  return {
+    record(entry) {
+      storage.sql.exec(
+        `INSERT INTO audit_log
+          (id, created_at, line_user_id, supabase_user_id, client_id, tool, arguments, duration_ms, outcome, error)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        crypto.randomUUID(),
+        entry.createdAt,
+        entry.lineUserId,
+        entry.supabaseUserId,
+        entry.clientId,
+        entry.tool,
+        JSON.stringify(entry.arguments),
+        entry.durationMs,
+        entry.outcome,
+        entry.error,
+      );
+      onRecord?.();
+    },
+
+    async forward(client, table) {
+      const rows = storage.sql
+        .exec<{
+          id: string;
+          created_at: number;
+          line_user_id: string;
+          supabase_user_id: string;
+          client_id: string | null;
+          tool: string;
+          arguments: string;
+          duration_ms: number;
+          outcome: string;
+          error: string | null;
+        }>(`SELECT * FROM audit_log WHERE forwarded = 0 ORDER BY created_at LIMIT ?`, FORWARD_BATCH_SIZE)
+        .toArray();
+
+      if (rows.length > 0) {
+        const { error } = await client.from(table).insert(
+          rows.map((row) => ({
+            id: row.id,
+            created_at: new Date(row.created_at).toISOString(),
+            user_id: row.supabase_user_id,
+            line_user_id: row.line_user_id,
+            client_id: row.client_id,
+            tool: row.tool,
+            arguments: JSON.parse(row.arguments),
+            duration_ms: row.duration_ms,
+            outcome: row.outcome,
+            error: row.error,
+          })),
+        );
+        if (error) {
+          logger.error("Audit log forward failed", { error: error.message });
+          return countPending(storage);
+        }
+
+        const ids = rows.map((row) => row.id);
+        storage.sql.exec(
+          `UPDATE audit_log SET forwarded = 1 WHERE id IN (${ids.map(() => "?").join(", ")})`,
+          ...ids,
+        );
+      }
+
+      storage.sql.exec(
+        `DELETE FROM audit_log WHERE forwarded = 1 AND created_at < ?`,
+        Date.now() - LOCAL_RETENTION_MS,
+      );
+      return countPending(storage);
+    },
+  };
+}
+
+/**
+ * Tool middleware that records every call, including ones rejected before the handler ran.
+ */
+export function auditMiddleware(log: AuditLog): ToolMiddleware {
+  return async ({ tool, args, props }, next) => {
+    const startedAt = Date.now();
+    let result: CallToolResult | undefined;
+    let thrown: unknown;
+
+    try {
+      result = await next();
+      return result;
+    } catch (error) {
+      thrown = error;
+      throw error;
+    } finally {
+      const failed = thrown !== undefined || result?.isError === true;
+      log.record({
+        createdAt: startedAt,
+        lineUserId: props.lineUserId,
+        supabaseUserId: props.supabaseUserId,
+        clientId: props.clientId ?? null,
+        tool: tool.name,
+        arguments: redact(args),
+        durationMs: Date.now() - startedAt,
+        outcome: failed ? "error" : "success",
+        error: thrown !== undefined ? errorMessage(thrown) : failed ? resultText(result) : null,
+      });
+    }
+  };
+}
+
+/**
+ * Replaces secret-looking values and truncates long strings before they are stored.
+ */
+export function redact(value: unknown, key = ""): unknown {
+  if (key && SECRET_KEY_PATTERN.test(key)) return "[REDACTED]";
+  if (typeof value === "string") {
+    return value.length > MAX_ARG_STRING_LENGTH ? `${value.slice(0, MAX_ARG_STRING_LENGTH)}…` : value;
+  }
+  if (Array.isArray(value)) return value.map((item) => redact(item));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redact(v, k)]));
+  }
+  return value;
+}
+
+// ── Helpers ──
+
+function countPending(storage: DurableObjectStorage): number {
+  const [row] = storage.sql
+    .exec<{ pending: number }>(`SELECT COUNT(*) AS pending FROM audit_log WHERE forwarded = 0`)
+    .toArray();
+  return row?.pending ?? 0;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function resultText(result: CallToolResult | undefined): string | null {
+  const first = result?.content[0];
+  return first?.type === "text" ? first.text.slice(0, MAX_ARG_STRING_LENGTH) : null;
+}
@@ -0,0 +1,276 @@
+/**
+ * Pluggable strategies for mapping a LINE user to a Supabase session.
+ *
+ * Select one with AUTH_STRATEGY:
+ *   - "password"     (default) signInWithPassword with LINE-derived credentials
+ *   - "jwt"          Mint a Supabase-compatible JWT with SUPABASE_JWT_SECRET
+ *   - "service_role" Look up the user by `line_user_id` with SUPABASE_SERVICE_ROLE_KEY
+ *
+ * "jwt" and "service_role" resolve the Supabase user through a table
+ * (LINE_USER_TABLE, default "profiles") with columns:
+ *   - id:           auth.users id
+ *   - line_user_id: LINE user ID
+ */
+
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { signHs256Jwt } from "./jwt";
+import { logger, type Logger } from "./logger";
+import { toStoredSession, type StoredSession } from "./supabase-client";
+
+export type AuthStrategyName = "password" | "jwt" | "service_role";
+
+/**
+ * Outcome of a sign-in. Only "not_found" says the account does not exist; "error" covers
+ * everything else (rate limits, outages, misconfiguration) and is worth retrying.
+ */
+export type SignInResult =
+  | { status: "ok"; session: StoredSession }
+  | { status: "not_found" }
+  | { status: "error"; error: string };
+
+export interface AuthStrategy {
+  readonly name: AuthStrategyName;
+  readonly supabaseUrl: string;
+  readonly supabaseAnonKey: string;
+  signIn(lineUserId: string): Promise<SignInResult>;
+}
+
+export const DEFAULT_LINE_USER_TABLE = "profiles";
+const JWT_LIFETIME_SECONDS = 3600;
+
+/**
+ * Creates the strategy selected by AUTH_STRATEGY.
+ * Throws if the secrets required by that strategy are missing.
+ * Sign-in failures are logged to `log` (pass the request logger to correlate them).
+ */
+export function createAuthStrategy(env: Env, log: Logger = logger): AuthStrategy {
+  const name: AuthStrategyName = env.AUTH_STRATEGY || "password";
+  const table = env.LINE_USER_TABLE || DEFAULT_LINE_USER_TABLE;
+
+  switch (name) {
+    case "password":
+      return createPasswordStrategy(
+        env.SUPABASE_URL,
+        env.SUPABASE_ANON_KEY,
+        requireSecret(env.COMMON_PASSWORD_PREFIX, "COMMON_PASSWORD_PREFIX", name),
+        log,
+      );
+    case "jwt":
+      return createJwtStrategy(
+        env.SUPABASE_URL,
+        env.SUPABASE_ANON_KEY,
+        requireSecret(env.SUPABASE_JWT_SECRET, "SUPABASE_JWT_SECRET", name),
+        table,
+        log,
+      );
+    case "service_role":
+      return createServiceRoleStrategy(
+        env.SUPABASE_URL,
+        env.SUPABASE_ANON_KEY,
+        requireSecret(env.SUPABASE_SERVICE_ROLE_KEY, "SUPABASE_SERVICE_ROLE_KEY", name),
+        table,
+        log,
+      );
+    default:
+      throw new Error(`Unknown AUTH_STRATEGY: ${name}`);
+  }
+}
+
+// ── Password strategy ──
+
+/**
+ * Signs in with:
+ *   - Email: {lineUserId}@line.com
+ *   - Password: {passwordPrefix}{lineUserId.slice(0, 6)}
+ *
+ * ⚠️ Anyone who knows the prefix can sign in as any user. Prefer "jwt" or
+ * "service_role" for new deployments.
+ *
+ * Supabase answers invalid_credentials both for a missing user and a wrong password, so
+ * both are "not_found"; changing COMMON_PASSWORD_PREFIX locks out (and, on the next
+ * identity check, revokes) every existing user unless their passwords are changed too.
+ */
+export function createPasswordStrategy(
+  supabaseUrl: string,
+  supabaseAnonKey: string,
+  passwordPrefix: string,
+  log: Logger = logger,
+): AuthStrategy {
+  return {
+    name: "password",
+    supabaseUrl,
+    supabaseAnonKey,
+    async signIn(lineUserId) {
+      const client = createClient(supabaseUrl, supabaseAnonKey, {
+        auth: { persistSession: false, autoRefreshToken: false },
+      });
+
+      const { email, password } = getPasswordCredentials(lineUserId, passwordPrefix);
+      const { data, error } = await client.auth.signInWithPassword({ email, password });
+      if (error?.code === "invalid_credentials") {
+        return { status: "not_found" };
+      }
+      if (error) {
+        log.error("Supabase signIn failed", { status: error.status, code: error.code, error: error.message });
+        return { status: "error", error: error.message };
+      }
+
+      return { status: "ok", session: toStoredSession(data.session) };
+    },
+  };
+}
+
+/**
+ * Credentials used by the password strategy (and by provisioning, to create matching users).
+ */
+export function getPasswordCredentials(lineUserId: string, passwordPrefix: string) {
+  // ⚠️ Customize this to match your service's auth logic
+  return {
+    email: `${lineUserId}@line.com`,
+    password: `${passwordPrefix}${lineUserId.slice(0, 6)}`,
+  };
+}
+
+// ── JWT strategy ──
+
+/**
+ * Mints an `authenticated` access token signed with the project's JWT secret.
+ * The token has no refresh token; a new one is minted when it expires.
+ */
+export function createJwtStrategy(
+  supabaseUrl: string,
+  supabaseAnonKey: string,
+  jwtSecret: string,
+  table: string,
+  log: Logger = logger,
+): AuthStrategy {
+  return {
+    name: "jwt",
+    supabaseUrl,
+    supabaseAnonKey,
+    async signIn(lineUserId) {
+      const now = Math.floor(Date.now() / 1000);
+      const serviceToken = await signHs256Jwt(
+        { role: "service_role", iss: "supabase", iat: now, exp: now + 60 },
+        jwtSecret,
+      );
+      const admin = createClient(supabaseUrl, supabaseAnonKey, {
+        auth: { persistSession: false, autoRefreshToken: false },
+        global: { headers: { Authorization: `Bearer ${serviceToken}` } },
+      });
+
+      const lookup = await findSupabaseUserId(admin, table, lineUserId, log);
+      if (lookup.status !== "ok") return lookup;
+      const { supabaseUserId } = lookup;
+
+      const expiresAt = now + JWT_LIFETIME_SECONDS;
+      const accessToken = await signHs256Jwt(
+        {
+          sub: supabaseUserId,
+          role: "authenticated",
+          aud: "authenticated",
+          iss: "supabase",
+          iat: now,
+          exp: expiresAt,
+          app_metadata: { provider: "line", line_user_id: lineUserId },
+        },
+        jwtSecret,
+      );
+
+      return { status: "ok", session: { accessToken, expiresAt, supabaseUserId } };
+    },
+  };
+}
+
+// ── Service-role strategy ──
+
+/**
+ * Looks up the user with the service role key, then exchanges an admin-generated
+ * magic link for a regular session (including a refresh token).
+ */
+export function createServiceRoleStrategy(
+  supabaseUrl: string,
+  supabaseAnonKey: string,
+  serviceRoleKey: string,
+  table: string,
+  log: Logger = logger,
+): AuthStrategy {
+  return {
+    name: "service_role",
+    supabaseUrl,
+    supabaseAnonKey,
+    async signIn(lineUserId) {
+      const admin = createClient(supabaseUrl, serviceRoleKey, {
+        auth: { persistSession: false, autoRefreshToken: false },
+      });
+
+      const lookup = await findSupabaseUserId(admin, table, lineUserId, log);
+      if (lookup.status !== "ok") return lookup;
+
+      const { data: userData, error: userError } = await admin.auth.admin.getUserById(lookup.supabaseUserId);
+      // The table still links the LINE user, but the auth user was deleted
+      if (userError?.code === "user_not_found" || userError?.status === 404) {
+        return { status: "not_found" };
+      }
+      if (userError || !userData.user.email) {
+        const message = userError?.message ?? "user has no email";
+        log.error("Supabase user lookup failed", { error: message });
+        return { status: "error", error: message };
+      }
+
+      const { data: link, error: linkError } = await admin.auth.admin.generateLink({
+        type: "magiclink",
+        email: userData.user.email,
+      });
+      if (linkError) {
+        log.error("Supabase generateLink failed", { error: linkError.message });
+        return { status: "error", error: linkError.message };
+      }
+
+      const client = createClient(supabaseUrl, supabaseAnonKey, {
+        auth: { persistSession: false, autoRefreshToken: false },
+      });
+      const { data, error } = await client.auth.verifyOtp({
+        token_hash: link.properties.hashed_token,
+        type: "email",
+      });
+      if (error || !data.session) {
+        const message = error?.message ?? "no session returned";
+        log.error("Supabase verifyOtp failed", { error: message });
+        return { status: "error", error: message };
+      }
+
+      return { status: "ok", session: toStoredSession(data.session) };
+    },
+  };
+}
+
+// ── Helpers ──
+
+function requireSecret(value: string | undefined, key: string, strategy: AuthStrategyName): string {
+  if (!value) {
+    throw new Error(`${key} is required for AUTH_STRATEGY=${strategy}`);
+  }
+  return value;
+}
+
+async function findSupabaseUserId(
+  admin: SupabaseClient,
+  table: string,
+  lineUserId: string,
+  log: Logger,
+): Promise<{ status: "ok"; supabaseUserId: string } | Exclude<SignInResult, { status: "ok" }>> {
+  const { data, error } = await admin
+    .from(table)
+    .select("id")
+    .eq("line_user_id", lineUserId)
+    .maybeSingle();
+
+  if (error) {
+    log.error("LINE user lookup failed", { error: error.message });
+    return { status: "error", error: error.message };
+  }
+
+  const supabaseUserId = data?.id as string | undefined;
+  return supabaseUserId ? { status: "ok", supabaseUserId } : { status: "not_found" };
+}
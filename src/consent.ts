@@ -0,0 +1,92 @@
+/**
+ * Scopes each LINE user has approved for each MCP client, kept server-side.
+ *
+ * Stored in OAUTH_KV under consent:{lineUserId}:{clientId}; KV drops a record
+ * CONSENT_TTL_DAYS (default 365) after the approval. /callback skips the approval
+ * dialog while the record covers every scope the client asks for, and the account
+ * page deletes it together with the client's grant. An unfollow that revokes the
+ * user's grants (REVOKE_GRANTS_ON_UNFOLLOW) deletes all of the user's records.
+ */
+
+export const DEFAULT_CONSENT_TTL_DAYS = 365;
+
+export type ConsentRecord = {
+  clientId: string;
+  scopes: string[];
+  approvedAt: number; // ms
+  expiresAt: number; // ms
+};
+
+export interface ConsentStore {
+  /** The unexpired approval of the client, or null if the user has to be asked again. */
+  get(lineUserId: string, clientId: string): Promise<ConsentRecord | null>;
+  list(lineUserId: string): Promise<ConsentRecord[]>;
+  /** Replaces any earlier approval; the expiry starts over. */
+  approve(lineUserId: string, clientId: string, scopes: string[]): Promise<ConsentRecord>;
+  revoke(lineUserId: string, clientId: string): Promise<void>;
+  /** Deletes every approval of the user, so each client has to be approved again. */
+  revokeAll(lineUserId: string): Promise<void>;
+}
+
+/**
+ * True when the approval covers every requested scope (and so the dialog can be skipped).
+ */
+export function consentCovers(consent: ConsentRecord | null, requestedScopes: string[]): consent is ConsentRecord {
+  return !!consent && requestedScopes.every((scope) => consent.scopes.includes(scope));
+}
+
+export function createConsentStore(env: Env): ConsentStore {
+  const kv = env.OAUTH_KV;
+  const ttlDays = Number(env.CONSENT_TTL_DAYS) || DEFAULT_CONSENT_TTL_DAYS;
+  // KV rejects expirations shorter than 60 seconds
+  const ttlSeconds = Math.max(60, Math.round(ttlDays * 24 * 60 * 60));
+
+  return {
+    async get(lineUserId, clientId) {
+      const consent = await kv.get<ConsentRecord>(consentKey(lineUserId, clientId), "json");
+      // KV expiry is not exact, so check it here too
+      return consent && consent.expiresAt > Date.now() ? consent : null;
+    },
+
+    async list(lineUserId) {
+      const consents: ConsentRecord[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await kv.list<ConsentRecord>({ prefix: consentKey(lineUserId, ""), cursor });
+        for (const key of page.keys) {
+          if (key.metadata && key.metadata.expiresAt > Date.now()) consents.push(key.metadata);
+        }
+        cursor = page.list_complete ? undefined : page.cursor;
+      } while (cursor);
+      return consents;
+    },
+
+    async approve(lineUserId, clientId, scopes) {
+      const approvedAt = Date.now();
+      const consent: ConsentRecord = { clientId, scopes, approvedAt, expiresAt: approvedAt + ttlSeconds * 1000 };
+      // The record doubles as metadata so list() needs no extra reads
+      await kv.put(consentKey(lineUserId, clientId), JSON.stringify(consent), {
+        expirationTtl: ttlSeconds,
+        metadata: consent,
+      });
+      return consent;
+    },
+
+    async revoke(lineUserId, clientId) {
+      await kv.delete(consentKey(lineUserId, clientId));
+    },
+
+    async revokeAll(lineUserId) {
+      let cursor: string | undefined;
+      do {
+        const page = await kv.list({ prefix: consentKey(lineUserId, ""), cursor });
+        await Promise.all(page.keys.map((key) => kv.delete(key.name)));
+        cursor = page.list_complete ? undefined : page.cursor;
+      } while (cursor);
+    },
+  };
+}
+
+function consentKey(lineUserId: string, clientId: string) {
+  return `consent:${lineUserId}:${clientId}`;
+}
@@ -0,0 +1,167 @@
+/**
+ * Signing (and optional encryption) of cookie values, with key rotation.
+ *
+ * New values use COOKIE_ENCRYPTION_KEY; keys listed in COOKIE_PREVIOUS_KEYS (comma-separated)
+ * are still accepted, so a key can be rotated without invalidating live cookies. Every value
+ * names its key by a key ID (a fingerprint of the key, so there is nothing extra to configure).
+ *
+ *   v1.{kid}.{payload}.{signature}  HMAC-SHA256 signed; the payload is readable by the browser
+ *   v1e.{kid}.{iv}.{ciphertext}     AES-GCM encrypted and authenticated (ENCRYPT_COOKIES=true)
+ *   {payload}|{hex signature}       Unversioned values from before rotation; read only
+ *
+ * Signatures are checked with crypto.subtle.verify, which compares in constant time.
+ */
+
+import { base64UrlDecode, base64UrlEncode } from "./jwt";
+
+export type CookieKeys = {
+  current: string;
+  previous: string[];
+  encrypt: boolean;
+};
+
+type DerivedKey = {
+  kid: string;
+  hmac: CryptoKey;
+  aes: CryptoKey;
+};
+
+// Derived keys, cached per isolate by secret
+const derivedKeys = new Map<string, Promise<DerivedKey>>();
+
+export function getCookieKeys(env: Env): CookieKeys {
+  return {
+    current: env.COOKIE_ENCRYPTION_KEY,
+    previous: (env.COOKIE_PREVIOUS_KEYS ?? "")
+      .split(",")
+      .map((key) => key.trim())
+      .filter(Boolean),
+    encrypt: env.ENCRYPT_COOKIES === "true",
+  };
+}
+
+/**
+ * Returns the key ID of a secret, e.g. to check which key a cookie was issued with.
+ */
+export async function getKeyId(secret: string): Promise<string> {
+  return (await deriveKey(secret)).kid;
+}
+
+/**
+ * Signs (or encrypts) `data` with the current key.
+ */
+export async function sealCookieValue(data: string, keys: CookieKeys): Promise<string> {
+  const key = await deriveKey(keys.current);
+
+  if (keys.encrypt) {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(`v1e.${key.kid}`) },
+      key.aes,
+      new TextEncoder().encode(data),
+    );
+    return `v1e.${key.kid}.${base64UrlEncode(iv)}.${base64UrlEncode(new Uint8Array(ciphertext))}`;
+  }
+
+  const signingInput = `v1.${key.kid}.${base64UrlEncode(data)}`;
+  const signature = await crypto.subtle.sign("HMAC", key.hmac, new TextEncoder().encode(signingInput));
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Returns the data of a value sealed with the current or a previous key, or null if it
+ * was tampered with, is malformed or was issued with a key that is no longer configured.
+ */
+export async function openCookieValue(value: string, keys: CookieKeys): Promise<string | null> {
+  const secrets = [keys.current, ...keys.previous];
+
+  try {
+    const [version, kid, first, second, ...rest] = value.split(".");
+    if ((version === "v1" || version === "v1e") && second !== undefined && rest.length === 0) {
+      const key = await findKey(secrets, kid);
+      if (!key) return null;
+
+      if (version === "v1e") {
+        const plaintext = await crypto.subtle
+          .decrypt(
+            { name: "AES-GCM", iv: base64UrlDecode(first), additionalData: new TextEncoder().encode(`v1e.${kid}`) },
+            key.aes,
+            base64UrlDecode(second),
+          )
+          .catch(() => null);
+        return plaintext ? new TextDecoder().decode(plaintext) : null;
+      }
+
+      const valid = await crypto.subtle.verify(
+        "HMAC",
+        key.hmac,
+        base64UrlDecode(second),
+        new TextEncoder().encode(`v1.${kid}.${first}`),
+      );
+      return valid ? new TextDecoder().decode(base64UrlDecode(first)) : null;
+    }
+
+    return await openLegacyValue(value, secrets);
+  } catch {
+    // Invalid base64 and the like
+    return null;
+  }
+}
+
+// ── Helpers ──
+
+async function openLegacyValue(value: string, secrets: string[]): Promise<string | null> {
+  const pipeIdx = value.lastIndexOf("|");
+  if (pipeIdx === -1) return null;
+
+  const data = value.slice(0, pipeIdx);
+  const hex = value.slice(pipeIdx + 1);
+  if (!/^[0-9a-f]{64}$/.test(hex)) return null;
+  const signature = Uint8Array.from(hex.match(/../g)!, (byte) => parseInt(byte, 16));
+
+  for (const secret of secrets) {
+    const { hmac } = await deriveKey(secret);
+    if (await crypto.subtle.verify("HMAC", hmac, signature, new TextEncoder().encode(data))) {
+      return data;
+    }
+  }
+  return null;
+}
+
+async function findKey(secrets: string[], kid: string): Promise<DerivedKey | null> {
+  for (const secret of secrets) {
+    const key = await deriveKey(secret);
+    if (key.kid === kid) return key;
+  }
+  return null;
+}
+
+function deriveKey(secret: string): Promise<DerivedKey> {
+  let key = derivedKeys.get(secret);
+  if (!key) {
+    key = (async () => {
+      const raw = new TextEncoder().encode(secret);
+      // The HMAC key is the secret itself, as for the unversioned format
+      const hmac = await crypto.subtle.importKey("raw", raw, { name: "HMAC", hash: "SHA-256" }, false, [
+        "sign",
+        "verify",
+      ]);
+      const hkdf = await crypto.subtle.importKey("raw", raw, "HKDF", false, ["deriveKey", "deriveBits"]);
+      const aes = await crypto.subtle.deriveKey(
+        { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(), info: new TextEncoder().encode("cookie-encryption") },
+        hkdf,
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"],
+      );
+      const kidBits = await crypto.subtle.deriveBits(
+        { name: "HKDF", hash: "SHA-256", salt: new Uint8Array(), info: new TextEncoder().encode("cookie-key-id") },
+        hkdf,
+        48,
+      );
+      return { kid: base64UrlEncode(new Uint8Array(kidBits)), hmac, aes };
+    })();
+    derivedKeys.set(secret, key);
+  }
+  return key;
+}
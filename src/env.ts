@@ -0,0 +1,232 @@
+/**
+ * Validation of the Worker environment (vars, secrets and bindings).
+ *
+ * `validateEnv` is run once per isolate by the entry point (problems are logged)
+ * and on demand by /readyz. Secret values are never echoed: `describeEnv` reports
+ * them only as set or missing.
+ */
+
+import { z } from "zod";
+import { logger } from "./logger";
+import { parseRateLimitOverride } from "./rate-limit";
+
+export type EnvIssue = {
+  key: string;
+  level: "error" | "warning";
+  message: string;
+};
+
+// Values copied from .dev.vars.example / wrangler.jsonc that were never replaced
+const PLACEHOLDER_PATTERN = /YOUR_|^your_|^generate_with/;
+
+const SECRET_KEYS = new Set<string>([
+  "SUPABASE_ANON_KEY",
+  "LINE_CHANNEL_SECRET",
+  "COMMON_PASSWORD_PREFIX",
+  "SUPABASE_JWT_SECRET",
+  "SUPABASE_SERVICE_ROLE_KEY",
+  "COOKIE_ENCRYPTION_KEY",
+  "COOKIE_PREVIOUS_KEYS",
+  "ADMIN_API_TOKEN",
+  "LINE_MESSAGING_CHANNEL_ACCESS_TOKEN",
+  "LINE_MESSAGING_CHANNEL_SECRET",
+  "OIDC_CLIENT_SECRET",
+]);
+
+const configured = (key: string) =>
+  z
+    .string({ required_error: `${key} is not set` })
+    .min(1, `${key} is empty`)
+    .refine((value) => !PLACEHOLDER_PATTERN.test(value), `${key} still has the placeholder value`);
+
+const optionalConfigured = (key: string) => configured(key).optional();
+
+const json = (key: string) =>
+  z
+    .string()
+    .refine((value) => {
+      try {
+        JSON.parse(value);
+        return true;
+      } catch {
+        return false;
+      }
+    }, `${key} is not valid JSON`)
+    .optional();
+
+// String vars and secrets; the output type is checked against Env below
+const varsSchema = z
+  .object({
+    SUPABASE_URL: configured("SUPABASE_URL").pipe(z.string().url("SUPABASE_URL is not a URL")),
+    SUPABASE_ANON_KEY: configured("SUPABASE_ANON_KEY"),
+    LINE_CHANNEL_ID: configured("LINE_CHANNEL_ID").pipe(
+      z.string().regex(/^\d+$/, "LINE_CHANNEL_ID should be the numeric channel ID"),
+    ),
+    LINE_CHANNEL_SECRET: configured("LINE_CHANNEL_SECRET"),
+    LINE_AUTH_BASE_URL: z.string().url().optional(),
+    LINE_API_BASE_URL: z.string().url().optional(),
+    MOCK_LINE: z.string().optional(),
+    MOCK_LINE_USERS: json("MOCK_LINE_USERS"),
+    MOCK_LINE_AUTO_LOGIN: z.string().optional(),
+    AUTH_STRATEGY: z.enum(["password", "jwt", "service_role"]).optional(),
+    COMMON_PASSWORD_PREFIX: optionalConfigured("COMMON_PASSWORD_PREFIX"),
+    SUPABASE_JWT_SECRET: optionalConfigured("SUPABASE_JWT_SECRET"),
+    SUPABASE_SERVICE_ROLE_KEY: optionalConfigured("SUPABASE_SERVICE_ROLE_KEY"),
+    LINE_USER_TABLE: z.string().optional(),
+    PROVISIONING: z.enum(["none", "service_role", "edge_function"]).optional(),
+    PROVISIONING_FUNCTION: z.string().optional(),
+    COOKIE_ENCRYPTION_KEY: configured("COOKIE_ENCRYPTION_KEY").pipe(
+      z.string().min(32, "COOKIE_ENCRYPTION_KEY should be at least 32 characters (openssl rand -hex 32)"),
+    ),
+    COOKIE_PREVIOUS_KEYS: z
+      .string()
+      .refine(
+        (value) =>
+          value
+            .split(",")
+            .map((key) => key.trim())
+            .filter(Boolean)
+            .every((key) => key.length >= 32),
+        "COOKIE_PREVIOUS_KEYS should be comma-separated keys of at least 32 characters",
+      )
+      .optional(),
+    ENCRYPT_COOKIES: z.enum(["true", "false"]).optional(),
+    PROMPT_TEMPLATE_TABLE: z.string().optional(),
+    AUDIT_LOG_TABLE: z.string().optional(),
+    ADMIN_API_TOKEN: optionalConfigured("ADMIN_API_TOKEN"),
+    RATE_LIMITS: z
+      .string()
+      .superRefine((value, ctx) => {
+        const [, problem] = parseRateLimitOverride(value);
+        if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `RATE_LIMITS is invalid (${problem})` });
+      })
+      .optional(),
+    USER_PLAN_TABLE: z.string().optional(),
+    LINE_MESSAGING_CHANNEL_ACCESS_TOKEN: optionalConfigured("LINE_MESSAGING_CHANNEL_ACCESS_TOKEN"),
+    LINE_MESSAGING_API_BASE_URL: z.string().url().optional(),
+    LINE_MESSAGING_CHANNEL_SECRET: optionalConfigured("LINE_MESSAGING_CHANNEL_SECRET"),
+    REVOKE_GRANTS_ON_UNFOLLOW: z.enum(["true", "false"]).optional(),
+    CONSENT_TTL_DAYS: z
+      .string()
+      .regex(/^\d+(\.\d+)?$/, "CONSENT_TTL_DAYS should be a number of days")
+      .optional(),
+    OIDC_ISSUER: z.string().url().optional(),
+    OIDC_CLIENT_ID: optionalConfigured("OIDC_CLIENT_ID"),
+    OIDC_CLIENT_SECRET: optionalConfigured("OIDC_CLIENT_SECRET"),
+    OIDC_SCOPES: z.string().optional(),
+    OIDC_LABEL: z.string().optional(),
+    IDENTITY_LINK_TABLE: z.string().optional(),
+    SERVER_NAME: z.string().optional(),
+    SERVER_DESCRIPTION: z.string().optional(),
+    SERVER_LOGO_URL: z.string().url().optional(),
+    ENABLED_TOOLS: z.string().optional(),
+    // Set per request for tenants (see tenants.ts)
+    TENANT_ID: z.string().optional(),
+    BASE_PATH: z.string().optional(),
+  })
+  .superRefine((env, ctx) => {
+    // Secrets required by the selected strategy / provisioning hook
+    const strategy = env.AUTH_STRATEGY ?? "password";
+    const strategySecret = {
+      password: "COMMON_PASSWORD_PREFIX",
+      jwt: "SUPABASE_JWT_SECRET",
+      service_role: "SUPABASE_SERVICE_ROLE_KEY",
+    } as const;
+    const required: [keyof typeof env, string][] = [[strategySecret[strategy], `AUTH_STRATEGY=${strategy}`]];
+
+    if (env.PROVISIONING && env.PROVISIONING !== "none") {
+      required.push(["SUPABASE_SERVICE_ROLE_KEY", `PROVISIONING=${env.PROVISIONING}`]);
+    }
+    if (env.PROVISIONING === "edge_function") {
+      required.push(["PROVISIONING_FUNCTION", "PROVISIONING=edge_function"]);
+    }
+    if (env.OIDC_ISSUER) {
+      required.push(
+        ["OIDC_CLIENT_ID", "OIDC_ISSUER"],
+        ["OIDC_CLIENT_SECRET", "OIDC_ISSUER"],
+        ["SUPABASE_SERVICE_ROLE_KEY", "OIDC_ISSUER (identity links)"],
+      );
+    }
+
+    for (const [key, reason] of required) {
+      if (!env[key]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `${key} is required for ${reason}` });
+      }
+    }
+  }) satisfies z.ZodType<Omit<Env, "MCP_OBJECT" | "OAUTH_KV" | "METRICS" | "TENANT_KV">, z.ZodTypeDef, unknown>;
+
+/**
+ * Returns every configuration problem; an empty list means the environment is usable.
+ */
+export function validateEnv(env: Env): EnvIssue[] {
+  const issues: EnvIssue[] = [];
+
+  const result = varsSchema.safeParse(env);
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      issues.push({ key: String(issue.path[0] ?? "env"), level: "error", message: issue.message });
+    }
+  }
+
+  if (typeof env.OAUTH_KV?.get !== "function") {
+    issues.push({ key: "OAUTH_KV", level: "error", message: "OAUTH_KV KV binding is missing" });
+  }
+  if (typeof env.MCP_OBJECT?.idFromName !== "function") {
+    issues.push({ key: "MCP_OBJECT", level: "error", message: "MCP_OBJECT Durable Object binding is missing" });
+  }
+  if (env.TENANT_KV && typeof env.TENANT_KV.get !== "function") {
+    issues.push({ key: "TENANT_KV", level: "error", message: "TENANT_KV is not a KV binding" });
+  }
+  if (env.METRICS && typeof env.METRICS.writeDataPoint !== "function") {
+    issues.push({
+      key: "METRICS",
+      level: "warning",
+      message: "METRICS is not an Analytics Engine binding; metrics are dropped",
+    });
+  }
+
+  if (env.MOCK_LINE === "true") {
+    issues.push({
+      key: "MOCK_LINE",
+      level: "warning",
+      message: "Mock LINE Login is enabled; anyone can sign in as any user",
+    });
+  }
+  if (!env.AUTH_STRATEGY || env.AUTH_STRATEGY === "password") {
+    issues.push({
+      key: "AUTH_STRATEGY",
+      level: "warning",
+      message: "The password strategy lets anyone who knows the prefix sign in as any user",
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Lists the configured keys; secret values are reported as "[REDACTED]".
+ */
+export function describeEnv(env: Env): Record<string, string | null> {
+  const keys = Object.keys(varsSchema.innerType().shape) as (keyof Env)[];
+  return Object.fromEntries(
+    keys.map((key) => {
+      const value = env[key];
+      if (typeof value !== "string" || value === "") return [key, null];
+      return [key, SECRET_KEYS.has(key) ? "[REDACTED]" : value];
+    }),
+  );
+}
+
+let loggedIsolate = false;
+
+/**
+ * Logs configuration problems on the first request handled by this isolate.
+ */
+export function logEnvIssuesOnce(env: Env) {
+  if (loggedIsolate) return;
+  loggedIsolate = true;
+
+  for (const issue of validateEnv(env)) {
+    logger[issue.level === "error" ? "error" : "warn"]("Config issue", { ...issue });
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Health and readiness routes (Hono router), mounted at the root by the LINE handler.
+ *
+ * Routes:
+ *   GET /healthz — Liveness; always 200 while the Worker runs
+ *   GET /readyz  — Readiness: config, cookie keys, KV read/write, Supabase and LINE channel checks
+ *                  (requires `Authorization: Bearer {ADMIN_API_TOKEN}`)
+ *
+ * /readyz answers 200 when every check passes or is skipped and 503 otherwise.
+ * Secrets are never included in the JSON, only whether they are set.
+ */
+
+import { Hono } from "hono";
+import { requireAdminToken } from "./admin-handler";
+import { getCookieKeys, getKeyId } from "./cookie-keys";
+import { describeEnv, validateEnv } from "./env";
+import { DEFAULT_LINE_MESSAGING_API_BASE_URL } from "./line-messaging";
+import { logger } from "./logger";
+import { DEFAULT_LINE_API_BASE_URL } from "./utils";
+
+type CheckStatus = "ok" | "fail" | "skipped";
+
+type CheckResult = {
+  status: CheckStatus;
+  durationMs: number;
+  detail?: string;
+};
+
+const CHECK_TIMEOUT_MS = 5000;
+
+const app = new Hono<{ Bindings: Env }>();
+
+// ── GET /healthz ──
+
+app.get("/healthz", (c) => c.json({ status: "ok" }));
+
+// ── GET /readyz ──
+
+app.get("/readyz", requireAdminToken, async (c) => {
+  const env = c.env;
+  const issues = validateEnv(env);
+
+  const [cookieKeys, kv, supabase, lineLogin, lineMessaging] = await Promise.all([
+    runCheck(() => checkCookieKeys(env)),
+    runCheck(() => checkKv(env)),
+    runCheck(() => checkSupabase(env)),
+    runCheck(() => checkLineLogin(env)),
+    runCheck(() => checkLineMessaging(env)),
+  ]);
+
+  const configErrors = issues.filter((issue) => issue.level === "error");
+  const checks: Record<string, CheckResult> = {
+    config: {
+      status: configErrors.length ? "fail" : "ok",
+      durationMs: 0,
+      detail: configErrors.length ? `${configErrors.length} error(s), see issues` : undefined,
+    },
+    cookie_keys: cookieKeys,
+    kv,
+    supabase,
+    line_login: lineLogin,
+    line_messaging: lineMessaging,
+  };
+
+  const ready = Object.values(checks).every((check) => check.status !== "fail");
+  return c.json(
+    { status: ready ? "ok" : "fail", checks, issues, config: describeEnv(env) },
+    ready ? 200 : 503,
+  );
+});
+
+// ── Checks ──
+// Each returns a short detail on success, returns null when skipped and throws on failure.
+
+// Key IDs are fingerprints, so they show which keys are active without revealing them
+async function checkCookieKeys(env: Env): Promise<string> {
+  const keys = getCookieKeys(env);
+  const current = await getKeyId(keys.current);
+  const previous = await Promise.all(keys.previous.map(getKeyId));
+  return [
+    `current ${current}`,
+    previous.length > 0 ? `previous ${previous.join(", ")}` : null,
+    keys.encrypt ? "encrypted" : "signed",
+  ]
+    .filter(Boolean)
+    .join("; ");
+}
+
+async function checkKv(env: Env): Promise<string> {
+  const key = `readyz:${crypto.randomUUID()}`;
+  const value = String(Date.now());
+
+  await env.OAUTH_KV.put(key, value, { expirationTtl: 60 });
+  const read = await env.OAUTH_KV.get(key);
+  await env.OAUTH_KV.delete(key);
+
+  if (read !== value) {
+    throw new Error("Value read back from OAUTH_KV did not match");
+  }
+  return "read/write ok";
+}
+
+// /auth/v1/settings is public, so it only fails for an unreachable project or a bad anon key
+async function checkSupabase(env: Env): Promise<string> {
+  const resp = await fetch(`${env.SUPABASE_URL.replace(/\/$/, "")}/auth/v1/settings`, {
+    headers: { apikey: env.SUPABASE_ANON_KEY },
+    signal: AbortSignal.timeout(CHECK_TIMEOUT_MS),
+  });
+
+  if (resp.status === 401 || resp.status === 403) {
+    throw new Error(`SUPABASE_ANON_KEY was rejected (${resp.status})`);
+  }
+  if (!resp.ok) {
+    throw new Error(`Supabase auth returned ${resp.status}`);
+  }
+  return "reachable, anon key accepted";
+}
+
+// Exchanges a code that cannot exist: invalid_grant means LINE accepted the channel credentials
+async function checkLineLogin(env: Env): Promise<string> {
+  const base = (env.LINE_API_BASE_URL || DEFAULT_LINE_API_BASE_URL).replace(/\/$/, "");
+  const resp = await fetch(`${base}/oauth2/v2.1/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code: "readyz-probe",
+      redirect_uri: "https://localhost/callback",
+      client_id: env.LINE_CHANNEL_ID,
+      client_secret: env.LINE_CHANNEL_SECRET,
+    }),
+    signal: AbortSignal.timeout(CHECK_TIMEOUT_MS),
+  });
+
+  const body = (await resp.json().catch(() => ({}))) as { error?: string };
+  if (body.error === "invalid_grant") {
+    return "channel credentials accepted";
+  }
+  if (body.error === "invalid_client") {
+    throw new Error("LINE_CHANNEL_ID / LINE_CHANNEL_SECRET were rejected");
+  }
+  throw new Error(`Unexpected LINE token response (${resp.status}${body.error ? ` ${body.error}` : ""})`);
+}
+
+async function checkLineMessaging(env: Env): Promise<string | null> {
+  if (!env.LINE_MESSAGING_CHANNEL_ACCESS_TOKEN) return null;
+
+  const base = (env.LINE_MESSAGING_API_BASE_URL || DEFAULT_LINE_MESSAGING_API_BASE_URL).replace(/\/$/, "");
+  const resp = await fetch(`${base}/v2/bot/info`, {
+    headers: { Authorization: `Bearer ${env.LINE_MESSAGING_CHANNEL_ACCESS_TOKEN}` },
+    signal: AbortSignal.timeout(CHECK_TIMEOUT_MS),
+  });
+
+  if (resp.status === 401) {
+    throw new Error("LINE_MESSAGING_CHANNEL_ACCESS_TOKEN was rejected");
+  }
+  if (!resp.ok) {
+    throw new Error(`LINE bot info returned ${resp.status}`);
+  }
+  const bot = (await resp.json()) as { basicId?: string };
+  return bot.basicId ? `bot ${bot.basicId}` : "token accepted";
+}
+
+// ── Helpers ──
+
+async function runCheck(check: () => Promise<string | null>): Promise<CheckResult> {
+  const start = Date.now();
+  try {
+    const detail = await check();
+    return {
+      status: detail === null ? "skipped" : "ok",
+      durationMs: Date.now() - start,
+      detail: detail ?? undefined,
+    };
+  } catch (error) {
+    logger.error("Readiness check failed", { error });
+    return {
+      status: "fail",
+      durationMs: Date.now() - start,
+      // Error messages above name keys only; fetch errors carry no secrets either
+      detail: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+export { app as HealthHandler };
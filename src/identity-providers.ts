@@ -0,0 +1,322 @@
+/**
+ * Upstream login providers for the OAuth flow in line-handler.ts.
+ *
+ *   - "line" LINE Login (always available; the account's primary identity)
+ *   - "oidc" Any OpenID Connect provider, enabled by OIDC_ISSUER / OIDC_CLIENT_ID / OIDC_CLIENT_SECRET
+ *
+ * A provider turns the callback's authorization code into a verified UpstreamIdentity.
+ * Identities other than LINE reach a Supabase account through the link table (see account-links.ts).
+ */
+
+import { decodeJwt, verifyEs256, verifyHs256, verifyRs256 } from "./jwt";
+import { logger, type Logger } from "./logger";
+import {
+  fetchLineProfile,
+  fetchLineToken,
+  getLineAuthorizeUrl,
+  verifyLineIdToken,
+  type LineTokenSet,
+} from "./utils";
+import { OAuthError } from "./workers-oauth-utils";
+
+export type IdentityProviderId = "line" | "oidc";
+
+// Who signed in, as verified by the provider
+export type UpstreamIdentity = {
+  provider: IdentityProviderId;
+  subject: string; // The provider's user ID (the LINE user ID for "line")
+  displayName: string;
+  pictureUrl?: string;
+  email?: string;
+  lineTokens?: LineTokenSet; // "line" only, kept for profile refreshes (identity.ts)
+};
+
+export interface IdentityProvider {
+  readonly id: IdentityProviderId;
+  /** Shown on the approval dialog and the account page */
+  readonly label: string;
+  authorizeUrl(params: { redirectUri: string; state: string; nonce: string; codeChallenge: string }): Promise<string>;
+  /** Exchanges the code and verifies the ID token; throws OAuthError on failure. */
+  exchangeCode(params: {
+    code: string;
+    redirectUri: string;
+    codeVerifier: string;
+    nonce: string;
+    log?: Logger;
+  }): Promise<UpstreamIdentity>;
+}
+
+const DEFAULT_OIDC_SCOPES = "openid profile email";
+
+/**
+ * Lists the configured providers, LINE first.
+ * An OIDC provider with incomplete settings is left out (validateEnv reports the missing keys).
+ */
+export function getIdentityProviders(env: Env): IdentityProvider[] {
+  const providers = [createLineProvider(env)];
+  if (env.OIDC_ISSUER) {
+    const oidc = createOidcProvider(env);
+    if (oidc) providers.push(oidc);
+  }
+  return providers;
+}
+
+export function getIdentityProvider(env: Env, id: string): IdentityProvider | null {
+  return getIdentityProviders(env).find((provider) => provider.id === id) ?? null;
+}
+
+// ── LINE Login ──
+
+export function createLineProvider(env: Env): IdentityProvider {
+  return {
+    id: "line",
+    label: "LINE",
+    async authorizeUrl({ redirectUri, state, nonce, codeChallenge }) {
+      return getLineAuthorizeUrl({
+        channelId: env.LINE_CHANNEL_ID,
+        redirectUri,
+        state,
+        nonce,
+        codeChallenge,
+        baseUrl: env.LINE_AUTH_BASE_URL,
+      });
+    },
+    async exchangeCode({ code, redirectUri, codeVerifier, nonce, log = logger }) {
+      const [lineTokens, errResponse] = await fetchLineToken({
+        code,
+        channelId: env.LINE_CHANNEL_ID,
+        channelSecret: env.LINE_CHANNEL_SECRET,
+        redirectUri,
+        codeVerifier,
+        baseUrl: env.LINE_API_BASE_URL,
+        log,
+      });
+      if (!lineTokens) {
+        log.error("LINE token exchange failed", { status: errResponse.status, body: await errResponse.text() });
+        throw new OAuthError(502, "Failed to exchange LINE authorization code");
+      }
+
+      // Verify the ID token (signature, iss, aud, exp, nonce)
+      const claims = await verifyLineIdToken(lineTokens.idToken, {
+        channelId: env.LINE_CHANNEL_ID,
+        channelSecret: env.LINE_CHANNEL_SECRET,
+        nonce,
+        apiBaseUrl: env.LINE_API_BASE_URL,
+        log,
+      });
+      if (!claims) {
+        throw new OAuthError(401, "Invalid LINE ID token", "access_denied");
+      }
+
+      // The profile endpoint is only a fallback for the display name
+      let displayName = claims.name;
+      let pictureUrl = claims.picture;
+      if (!displayName) {
+        const profile = await fetchLineProfile(lineTokens.accessToken, env.LINE_API_BASE_URL, log);
+        if (!profile || profile.userId !== claims.sub) {
+          throw new OAuthError(502, "Failed to fetch LINE profile");
+        }
+        displayName = profile.displayName;
+        pictureUrl ??= profile.pictureUrl;
+      }
+
+      const { idToken: _idToken, ...tokenSet } = lineTokens;
+      return {
+        provider: "line",
+        subject: claims.sub,
+        displayName,
+        pictureUrl,
+        email: claims.email,
+        lineTokens: tokenSet,
+      };
+    },
+  };
+}
+
+// ── Generic OpenID Connect ──
+
+type OidcConfiguration = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+};
+
+type OidcClaims = {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  nonce?: string;
+  name?: string;
+  preferred_username?: string;
+  picture?: string;
+  email?: string;
+};
+
+// Discovery documents, cached per isolate
+const oidcConfigurations = new Map<string, Promise<OidcConfiguration>>();
+
+/**
+ * Authorization code flow with PKCE against OIDC_ISSUER (endpoints from its discovery document).
+ * ID tokens may be RS256, ES256 or HS256 (signed with the client secret).
+ * Returns null (and logs which settings are missing) unless the issuer, client ID and secret are all set.
+ */
+export function createOidcProvider(env: Env): IdentityProvider | null {
+  const issuer = env.OIDC_ISSUER?.replace(/\/$/, "");
+  const clientId = env.OIDC_CLIENT_ID;
+  const clientSecret = env.OIDC_CLIENT_SECRET;
+  if (!issuer || !clientId || !clientSecret) {
+    const missing = (["OIDC_ISSUER", "OIDC_CLIENT_ID", "OIDC_CLIENT_SECRET"] as const).filter((key) => !env[key]);
+    logger.error("OIDC provider disabled: incomplete settings", { missing });
+    return null;
+  }
+
+  return {
+    id: "oidc",
+    label: env.OIDC_LABEL || "OpenID Connect",
+    async authorizeUrl({ redirectUri, state, nonce, codeChallenge }) {
+      const config = await getOidcConfiguration(issuer);
+      const url = new URL(config.authorization_endpoint);
+      url.searchParams.set("response_type", "code");
+      url.searchParams.set("client_id", clientId);
+      url.searchParams.set("redirect_uri", redirectUri);
+      url.searchParams.set("scope", env.OIDC_SCOPES || DEFAULT_OIDC_SCOPES);
+      url.searchParams.set("state", state);
+      url.searchParams.set("nonce", nonce);
+      url.searchParams.set("code_challenge", codeChallenge);
+      url.searchParams.set("code_challenge_method", "S256");
+      return url.href;
+    },
+    async exchangeCode({ code, redirectUri, codeVerifier, nonce, log = logger }) {
+      const config = await getOidcConfiguration(issuer);
+
+      // client_secret_basic is the spec default; use client_secret_post only when it is the sole option
+      const usePost =
+        config.token_endpoint_auth_methods_supported?.includes("client_secret_post") &&
+        !config.token_endpoint_auth_methods_supported.includes("client_secret_basic");
+      const body = new URLSearchParams({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: redirectUri,
+        code_verifier: codeVerifier,
+      });
+      const headers: Record<string, string> = { "Content-Type": "application/x-www-form-urlencoded" };
+      if (usePost) {
+        body.set("client_id", clientId);
+        body.set("client_secret", clientSecret);
+      } else {
+        headers.Authorization = `Basic ${btoa(`${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`)}`;
+      }
+
+      const resp = await fetch(config.token_endpoint, { method: "POST", headers, body: body.toString() });
+      if (!resp.ok) {
+        log.error("OIDC token exchange failed", { status: resp.status, body: await resp.text() });
+        throw new OAuthError(502, "Failed to exchange the authorization code");
+      }
+      const tokens = (await resp.json()) as { id_token?: string };
+      if (!tokens.id_token) {
+        throw new OAuthError(502, "Missing ID token from the identity provider");
+      }
+
+      const claims = await verifyOidcIdToken(tokens.id_token, config, { clientId, clientSecret, nonce }, log);
+      if (!claims) {
+        throw new OAuthError(401, "Invalid ID token", "access_denied");
+      }
+
+      return {
+        provider: "oidc",
+        subject: claims.sub,
+        displayName: claims.name || claims.preferred_username || claims.email || claims.sub,
+        pictureUrl: claims.picture,
+        email: claims.email,
+      };
+    },
+  };
+}
+
+async function verifyOidcIdToken(
+  idToken: string,
+  config: OidcConfiguration,
+  { clientId, clientSecret, nonce }: { clientId: string; clientSecret: string; nonce: string },
+  log: Logger,
+): Promise<OidcClaims | null> {
+  const decoded = decodeJwt<OidcClaims>(idToken);
+  if (!decoded) {
+    log.error("OIDC ID token is malformed");
+    return null;
+  }
+
+  const { header, payload: claims, signingInput, signature } = decoded;
+
+  let valid = false;
+  if (header.alg === "HS256") {
+    valid = await verifyHs256(signingInput, signature, clientSecret);
+  } else if (header.alg === "RS256" || header.alg === "ES256") {
+    const jwk = (await fetchJwks(config.jwks_uri, log)).find(
+      (k) => (k as JsonWebKey & { kid?: string }).kid === header.kid,
+    );
+    if (jwk) {
+      valid = header.alg === "RS256"
+        ? await verifyRs256(signingInput, signature, jwk)
+        : await verifyEs256(signingInput, signature, jwk);
+    }
+  }
+  if (!valid) {
+    log.error("OIDC ID token signature invalid", { alg: header.alg });
+    return null;
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== config.issuer) {
+    log.error("OIDC ID token issuer mismatch", { iss: claims.iss });
+    return null;
+  }
+  if (!audiences.includes(clientId)) {
+    log.error("OIDC ID token audience mismatch", { aud: claims.aud });
+    return null;
+  }
+  if (typeof claims.exp !== "number" || claims.exp <= Math.floor(Date.now() / 1000)) {
+    log.error("OIDC ID token expired");
+    return null;
+  }
+  if (claims.nonce !== nonce) {
+    log.error("OIDC ID token nonce mismatch");
+    return null;
+  }
+  if (!claims.sub) {
+    log.error("OIDC ID token has no subject");
+    return null;
+  }
+
+  return claims;
+}
+
+// ── Helpers ──
+
+function getOidcConfiguration(issuer: string): Promise<OidcConfiguration> {
+  let config = oidcConfigurations.get(issuer);
+  if (!config) {
+    config = fetch(`${issuer}/.well-known/openid-configuration`).then(async (resp) => {
+      if (!resp.ok) {
+        throw new OAuthError(502, `OIDC discovery failed (${resp.status})`);
+      }
+      return resp.json() as Promise<OidcConfiguration>;
+    });
+    // Retry on the next request instead of caching a failure
+    config.catch(() => oidcConfigurations.delete(issuer));
+    oidcConfigurations.set(issuer, config);
+  }
+  return config;
+}
+
+async function fetchJwks(jwksUri: string, log: Logger): Promise<JsonWebKey[]> {
+  const resp = await fetch(jwksUri);
+  if (!resp.ok) {
+    log.error("OIDC JWKS fetch failed", { status: resp.status, body: await resp.text() });
+    return [];
+  }
+  const body = (await resp.json()) as { keys?: JsonWebKey[] };
+  return body.keys ?? [];
+}
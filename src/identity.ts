@@ -0,0 +1,257 @@
+/**
+ * Re-validation of the identity frozen into a token's Props.
+ *
+ * Props are fixed when /callback completes the authorization. The user object
+ * (see user-object.ts) re-checks them at most every IDENTITY_CHECK_INTERVAL_MS:
+ *   - Supabase: a fresh sign-in plus getUser, so deleted, banned or replaced accounts are caught
+ *   - LINE: the profile, read with the LINE Login token saved at login (refreshed when expired)
+ *
+ * Sessions copy the refreshed profile into their props. The state becomes "revoked" only
+ * when Supabase positively reports the account gone (not found, replaced or banned): tool
+ * calls fail, and withIdentityCheck revokes the grants on the next MCP request. Any other
+ * failure (rate limits, outages, misconfiguration) leaves it "unverified", and a revoked
+ * state is checked again like any other, so a transient error never locks a user out for good.
+ */
+
+import type { OAuthHelpers } from "@cloudflare/workers-oauth-provider";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { createAuthStrategy } from "./auth-strategy";
+import { logger } from "./logger";
+import { signInWithLineId } from "./supabase-client";
+import type { ToolMiddleware } from "./tools/registry";
+import { getUserObject } from "./user-object";
+import { fetchLineProfile, refreshLineToken, type LineTokenSet, type Props } from "./utils";
+
+export const IDENTITY_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+// "unverified": the account could not be checked; the token keeps working until a check succeeds
+export type IdentityStatus = "active" | "unverified" | "revoked";
+
+// Stored per Supabase account under identity:{supabaseUserId}, so a re-created account
+// does not inherit (or clear) the state of the one it replaced
+export type IdentityState = {
+  status: IdentityStatus;
+  reason?: string;
+  supabaseUserId: string;
+  displayName: string;
+  pictureUrl?: string;
+  checkedAt: number; // ms
+};
+
+export type IdentityBaseline = Pick<IdentityState, "supabaseUserId" | "displayName" | "pictureUrl">;
+
+const LINE_TOKENS_KEY = "line_tokens";
+
+// Refresh the LINE access token this many seconds before it expires
+const LINE_REFRESH_MARGIN_SECONDS = 60;
+
+// ── State (stored in the user object) ──
+
+/**
+ * Records a successful login: the account is active again and its LINE token is kept
+ * for later profile refreshes.
+ */
+export async function resetIdentity(
+  storage: DurableObjectStorage,
+  identity: IdentityBaseline,
+  lineTokens?: LineTokenSet,
+) {
+  const state: IdentityState = { status: "active", ...identity, checkedAt: Date.now() };
+  await storage.put(identityKey(identity.supabaseUserId), state);
+  if (lineTokens) {
+    await storage.put(LINE_TOKENS_KEY, lineTokens);
+  }
+}
+
+export function getIdentityState(
+  storage: DurableObjectStorage,
+  supabaseUserId: string,
+): Promise<IdentityState | undefined> {
+  return storage.get<IdentityState>(identityKey(supabaseUserId));
+}
+
+/**
+ * Returns the identity state for the token's props, re-checking Supabase and LINE when the
+ * last check is older than IDENTITY_CHECK_INTERVAL_MS (or `force` is set).
+ */
+export async function revalidateIdentity(
+  storage: DurableObjectStorage,
+  env: Env,
+  props: Props,
+  force = false,
+): Promise<IdentityState> {
+  const cached = await getIdentityState(storage, props.supabaseUserId);
+  if (cached && !force && Date.now() - cached.checkedAt < IDENTITY_CHECK_INTERVAL_MS) return cached;
+
+  const account = await checkSupabaseAccount(env, props);
+  const profile = account.status === "revoked" ? null : await fetchCurrentLineProfile(storage, env, props.lineUserId);
+
+  const state: IdentityState = {
+    ...account,
+    supabaseUserId: props.supabaseUserId,
+    displayName: profile?.displayName ?? cached?.displayName ?? props.displayName,
+    pictureUrl: profile ? profile.pictureUrl : (cached?.pictureUrl ?? props.pictureUrl),
+    checkedAt: Date.now(),
+  };
+  await storage.put(identityKey(props.supabaseUserId), state);
+  return state;
+}
+
+// ── Tool middleware ──
+
+/**
+ * Tool middleware that rejects calls once the account is revoked.
+ * `check` returns the current state, or null when it could not be determined.
+ */
+export function identityMiddleware(check: () => Promise<IdentityState | null>): ToolMiddleware {
+  return async (_call, next) => {
+    const state = await check();
+    return state?.status === "revoked" ? identityRevokedResult(state) : next();
+  };
+}
+
+export function identityRevokedResult(state: IdentityState): CallToolResult {
+  const error = { error: "identity_revoked", reason: state.reason };
+  return {
+    content: [
+      {
+        type: "text",
+        text: `This connection is no longer valid: ${state.reason}. Sign in again to reconnect.\n${JSON.stringify(error)}`,
+      },
+    ],
+    isError: true,
+    _meta: error,
+  };
+}
+
+// ── API handler wrapper ──
+
+// The OAuth provider types the env of its API handlers as unknown
+type FetchHandler = {
+  fetch(request: Request, env: unknown, ctx: ExecutionContext): Response | Promise<Response>;
+};
+
+/**
+ * Wraps an OAuthProvider API handler: requests whose account is revoked get the user's
+ * grants for that account revoked and a 401 invalid_token, so the client signs in again.
+ * Sessions cannot do this themselves since the OAuth helpers only exist in the Worker.
+ */
+export function withIdentityCheck(handler: FetchHandler): FetchHandler {
+  return {
+    async fetch(request: Request, workerEnv: unknown, ctx: ExecutionContext) {
+      // The Worker's env, to which the provider adds its helpers
+      const env = workerEnv as Env & { OAUTH_PROVIDER: OAuthHelpers };
+      const props = ctx.props as Props | undefined;
+      if (props?.lineUserId) {
+        try {
+          const state = await getUserObject(env, props.lineUserId).getIdentityState(props.supabaseUserId);
+          if (state?.status === "revoked") {
+            await revokeUserGrants(env.OAUTH_PROVIDER, props.lineUserId, props.supabaseUserId);
+            return Response.json(
+              { error: "invalid_token", error_description: `Account is no longer valid: ${state.reason}` },
+              { status: 401, headers: { "WWW-Authenticate": 'Bearer realm="OAuth", error="invalid_token"' } },
+            );
+          }
+        } catch (error: unknown) {
+          logger.error("Identity check failed", { error });
+        }
+      }
+      return handler.fetch(request, env, ctx);
+    },
+  };
+}
+
+/**
+ * Revokes the LINE user's grants. With `supabaseUserId`, only grants issued for that
+ * Supabase account (and older grants that did not record one) are revoked.
+ */
+export async function revokeUserGrants(provider: OAuthHelpers, lineUserId: string, supabaseUserId?: string) {
+  const grants = [];
+  let cursor: string | undefined;
+  do {
+    const page = await provider.listUserGrants(lineUserId, { cursor });
+    grants.push(...page.items);
+    cursor = page.cursor;
+  } while (cursor);
+
+  for (const grant of grants) {
+    const issuedFor = (grant.metadata as { supabaseUserId?: string } | undefined)?.supabaseUserId;
+    if (supabaseUserId && issuedFor && issuedFor !== supabaseUserId) continue;
+    await provider.revokeGrant(grant.id, lineUserId);
+  }
+}
+
+// ── Checks ──
+
+type AccountCheck = { status: IdentityStatus; reason?: string };
+
+async function checkSupabaseAccount(env: Env, props: Props): Promise<AccountCheck> {
+  try {
+    return await checkSupabaseAccountOrThrow(env, props);
+  } catch (error: unknown) {
+    logger.error("Supabase account check failed", { error });
+    return { status: "unverified", reason: "The Supabase account could not be checked" };
+  }
+}
+
+async function checkSupabaseAccountOrThrow(env: Env, props: Props): Promise<AccountCheck> {
+  const result = await signInWithLineId(createAuthStrategy(env), props.lineUserId);
+  if (result.status === "not_found") {
+    return { status: "revoked", reason: "No Supabase account is linked to this LINE user" };
+  }
+  if (result.status === "error") {
+    return { status: "unverified", reason: result.error };
+  }
+  if (result.supabaseUserId !== props.supabaseUserId) {
+    return { status: "revoked", reason: "The LINE user is now linked to a different Supabase account" };
+  }
+
+  // Catches accounts the strategy can still mint tokens for (e.g. "jwt" after the auth user was deleted)
+  const { data, error } = await result.client.auth.getUser(result.session.accessToken);
+  if (error) {
+    return error.code === "user_not_found" || error.status === 404
+      ? { status: "revoked", reason: "The Supabase account no longer exists" }
+      : { status: "unverified", reason: error.message };
+  }
+  if (data.user.banned_until && Date.parse(data.user.banned_until) > Date.now()) {
+    return { status: "revoked", reason: "The Supabase account is banned" };
+  }
+  return { status: "active" };
+}
+
+// Null when no LINE token was saved, it can no longer be refreshed, or LINE is unavailable
+async function fetchCurrentLineProfile(storage: DurableObjectStorage, env: Env, lineUserId: string) {
+  let tokens = await storage.get<LineTokenSet>(LINE_TOKENS_KEY);
+  if (!tokens) return null;
+
+  try {
+    if (tokens.expiresAt && tokens.expiresAt - LINE_REFRESH_MARGIN_SECONDS <= Date.now() / 1000) {
+      const refreshed = tokens.refreshToken
+        ? await refreshLineToken({
+            refreshToken: tokens.refreshToken,
+            channelId: env.LINE_CHANNEL_ID,
+            channelSecret: env.LINE_CHANNEL_SECRET,
+            baseUrl: env.LINE_API_BASE_URL,
+          })
+        : null;
+      if (!refreshed) {
+        await storage.delete(LINE_TOKENS_KEY);
+        return null;
+      }
+      tokens = refreshed;
+      await storage.put(LINE_TOKENS_KEY, tokens);
+    }
+
+    const profile = await fetchLineProfile(tokens.accessToken, env.LINE_API_BASE_URL);
+    return profile?.userId === lineUserId ? profile : null;
+  } catch (error: unknown) {
+    logger.error("LINE profile refresh failed", { error });
+    return null;
+  }
+}
+
+// ── Helpers ──
+
+function identityKey(supabaseUserId: string) {
+  return `identity:${supabaseUserId}`;
+}
@@ -2,82 +2,241 @@
  * Development entry point — bypasses OAuth for tool testing.
  *
  * Usage:
- *   1. Set DEV_LINE_USER_ID in .dev.vars
+ *   1. Set DEV_LINE_USER_ID (and optionally DEV_USERS) in .dev.vars
  *   2. npm run dev:noauth
  *   3. npx @modelcontextprotocol/inspector --url http://localhost:8788/mcp
  *
  * This connects to Supabase with your LINE user's credentials,
  * so all tools can be tested without LINE Login.
+ *
+ * Each MCP session can pick a user and simulate Props and failures with query
+ * parameters (or X-Dev-* headers) on the initialize request:
+ *   ?user=alice                 — DEV_USERS key, or a LINE user ID (X-Dev-User)
+ *   ?display_name=Alice         — Props.displayName (X-Dev-Display-Name)
+ *   ?scopes=recipes:read,...    — Props.scopes, empty for none; default is all (X-Dev-Scopes)
+ *   ?simulate=signin_error      — Scenario, see DevScenario (X-Dev-Simulate)
+ *
+ * There is no LINE webhook: POST /line-events?user=alice with a text body adds a
+ * LINE reply from that user, for get_line_messages.
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { McpAgent } from "agents/mcp";
-import { signInWithLineId } from "./supabase-client";
-import { registerHello } from "./tools/hello";
+import { createAuthStrategy } from "./auth-strategy";
+import { revalidateIdentity, type IdentityState } from "./identity";
+import { appendLineInbox, readLineInbox, type LineInboxEvent } from "./line-webhook";
+import {
+  createAuthenticatedClient,
+  createDurableObjectSessionStore,
+  signInWithLineId,
+} from "./supabase-client";
+import { logger } from "./logger";
+import { prompts } from "./prompts";
+import { registerPrompts } from "./prompts/registry";
+import { resources } from "./resources";
+import { registerResources } from "./resources/registry";
+import { collectScopes } from "./scopes";
+import { getEnabledTools } from "./tools";
+import { registerTools } from "./tools/registry";
+import { getUserObject } from "./user-object";
+import type { Props } from "./utils";
 
 interface DevEnv extends Env {
   DEV_LINE_USER_ID: string;
+  /** JSON: { "alice": { "lineUserId": "U...", "displayName": "Alice", "scopes": [...] }, ... } */
+  DEV_USERS?: string;
 }
 
-type DevProps = {
+type DevUser = {
+  lineUserId: string;
+  displayName?: string;
+  scopes?: string[];
+};
+
+// Failures to simulate in a dev session:
+//   signin_error    — the initial Supabase sign-in fails (only the "error" tool is exposed)
+//   session_expired — the cached Supabase session starts out expired, exercising refresh/re-sign-in
+//   client_error    — every getClient() fails, so tools return the auth error
+type DevScenario = "signin_error" | "session_expired" | "client_error";
+
+// Passed from fetch to the Durable Object as its props on the initialize request
+type DevSession = {
   lineUserId: string;
-  supabaseUserId: string;
   displayName: string;
+  scopes?: string[];
+  simulate?: DevScenario;
 };
 
-export class MyMCPDev extends McpAgent<DevEnv, Record<string, never>, DevProps> {
+const DEV_SCENARIOS: readonly DevScenario[] = ["signin_error", "session_expired", "client_error"];
+
+export class MyMCPDev extends McpAgent<DevEnv, Record<string, never>, DevSession> {
   server = new McpServer({
     name: "My MCP Server (Dev)",
     version: "1.0.0",
   });
 
   async init() {
-    const result = await signInWithLineId(
-      this.env.SUPABASE_URL,
-      this.env.SUPABASE_ANON_KEY,
-      this.env.DEV_LINE_USER_ID,
-      this.env.COMMON_PASSWORD_PREFIX,
-    );
+    const session = this.props?.lineUserId ? this.props : resolveDevSession(this.env, new URLSearchParams());
+    const authStrategy = createAuthStrategy(this.env);
+    const result =
+      session.simulate === "signin_error"
+        ? ({ status: "error", error: "simulated" } as const)
+        : await signInWithLineId(authStrategy, session.lineUserId);
 
-    if (!result) {
-      console.error("Dev auth failed — check DEV_LINE_USER_ID and COMMON_PASSWORD_PREFIX in .dev.vars");
+    if (result.status !== "ok") {
+      logger.error("Dev auth failed — check DEV_LINE_USER_ID and AUTH_STRATEGY secrets in .dev.vars");
       this.server.tool("error", "Auth failed", {}, async () => ({
-        content: [{ type: "text", text: "Auth failed: check DEV_LINE_USER_ID in .dev.vars" }],
+        content: [
+          {
+            type: "text",
+            text:
+              session.simulate === "signin_error"
+                ? "Auth failed (simulated by simulate=signin_error)"
+                : `Auth failed for ${session.lineUserId}: check DEV_LINE_USER_ID / DEV_USERS in .dev.vars`,
+          },
+        ],
       }));
       return;
     }
 
-    const lineUserId = this.env.DEV_LINE_USER_ID;
-    const supabaseUserId = result.supabaseUserId;
+    const props: Props = {
+      lineUserId: session.lineUserId,
+      supabaseUserId: result.supabaseUserId,
+      displayName: session.displayName,
+      scopes: session.scopes ?? collectScopes(getEnabledTools(this.env), resources, prompts),
+      provider: "line",
+    };
+
+    const sessionStore = createDurableObjectSessionStore(this.ctx.storage);
+    if (session.simulate === "session_expired") {
+      await sessionStore.put({
+        ...result.session,
+        accessToken: "expired",
+        refreshToken: result.session.refreshToken ? "invalid" : undefined,
+        expiresAt: Math.floor(Date.now() / 1000) - 60,
+      });
+    } else {
+      await sessionStore.put(result.session);
+    }
 
     const getClient = () =>
-      import("./supabase-client").then((m) =>
-        m.createAuthenticatedClient(
-          this.env.SUPABASE_URL,
-          this.env.SUPABASE_ANON_KEY,
-          lineUserId,
-          this.env.COMMON_PASSWORD_PREFIX,
-        ),
-      );
-
-    const getUserId = () => supabaseUserId;
-
-    // Register your tools here (same as index.ts)
-    registerHello(this.server, getClient, getUserId);
+      session.simulate === "client_error"
+        ? Promise.resolve(null)
+        : createAuthenticatedClient(authStrategy, props.lineUserId, sessionStore);
+
+    const contextProvider = {
+      getClient,
+      getUserId: () => props.supabaseUserId,
+      getProps: () => props,
+      env: this.env,
+    };
+
+    // Same tools, resources and prompts as index.ts
+    registerTools(this.server, getEnabledTools(this.env), contextProvider);
+    registerResources(this.server, resources, contextProvider);
+    registerPrompts(this.server, prompts, contextProvider);
+  }
+
+  // ── RPC on the user object (see user-object.ts), used by get_identity and get_line_messages ──
+
+  // Only Supabase is re-checked: dev sessions have no LINE token to refresh the profile with
+  async revalidateIdentity(props: Props, force = false): Promise<IdentityState> {
+    return revalidateIdentity(this.ctx.storage, this.env, props, force);
+  }
+
+  async handleLineEvents(events: LineInboxEvent[]) {
+    await appendLineInbox(this.ctx.storage, events);
+  }
+
+  async getLineInbox(since?: number): Promise<LineInboxEvent[]> {
+    return readLineInbox(this.ctx.storage, since);
   }
 }
 
 export default {
-  fetch(request: Request, env: DevEnv, ctx: ExecutionContext) {
+  async fetch(request: Request, env: DevEnv, ctx: ExecutionContext) {
     const url = new URL(request.url);
 
     if (url.pathname === "/mcp" || url.pathname.startsWith("/mcp/")) {
+      // Read by McpAgent.serve as the session's props (only on the initialize request)
+      (ctx as { props: unknown }).props = resolveDevSession(env, devParams(request));
       return (MyMCPDev.serve("/mcp") as any).fetch(request, env, ctx);
     }
 
+    if (url.pathname === "/line-events" && request.method === "POST") {
+      const { lineUserId } = resolveDevSession(env, devParams(request));
+      const event: LineInboxEvent = {
+        id: crypto.randomUUID(),
+        type: "message",
+        lineUserId,
+        timestamp: Date.now(),
+        messageType: "text",
+        text: await request.text(),
+      };
+      await getUserObject(env, lineUserId).handleLineEvents([event]);
+      return new Response(null, { status: 204 });
+    }
+
+    const users = Object.keys(getDevUsers(env));
     return new Response(
-      `MCP Dev Server\n\nConnect MCP Inspector to: ${url.origin}/mcp`,
+      `MCP Dev Server\n\nConnect MCP Inspector to: ${url.origin}/mcp\n\n` +
+        `Users: ${users.join(", ")}\n` +
+        `Examples:\n` +
+        `  ${url.origin}/mcp?user=${users[0] ?? "default"}\n` +
+        `  ${url.origin}/mcp?user=${users[0] ?? "default"}&scopes=&display_name=Guest\n` +
+        `  ${url.origin}/mcp?simulate=${DEV_SCENARIOS.join("|")}\n` +
+        `LINE reply: curl -X POST "${url.origin}/line-events?user=${users[0] ?? "default"}" -d "hello"\n`,
       { headers: { "Content-Type": "text/plain" } },
     );
   },
 };
+
+// ── Helpers ──
+
+// "default" is always DEV_LINE_USER_ID; DEV_USERS adds more
+function getDevUsers(env: DevEnv): Record<string, DevUser> {
+  const users: Record<string, DevUser> = env.DEV_LINE_USER_ID
+    ? { default: { lineUserId: env.DEV_LINE_USER_ID, displayName: "Dev User" } }
+    : {};
+  if (!env.DEV_USERS) return users;
+
+  try {
+    return { ...users, ...(JSON.parse(env.DEV_USERS) as Record<string, DevUser>) };
+  } catch {
+    logger.error("DEV_USERS is not valid JSON; only DEV_LINE_USER_ID is available");
+    return users;
+  }
+}
+
+// Query parameters take precedence over X-Dev-* headers
+function devParams(request: Request): URLSearchParams {
+  const url = new URL(request.url);
+  const params = new URLSearchParams();
+  for (const [name, header] of [
+    ["user", "X-Dev-User"],
+    ["display_name", "X-Dev-Display-Name"],
+    ["scopes", "X-Dev-Scopes"],
+    ["simulate", "X-Dev-Simulate"],
+  ] as const) {
+    const value = url.searchParams.get(name) ?? request.headers.get(header);
+    if (value !== null) params.set(name, value);
+  }
+  return params;
+}
+
+function resolveDevSession(env: DevEnv, params: URLSearchParams): DevSession {
+  const users = getDevUsers(env);
+  const key = params.get("user") ?? "default";
+  // Unknown keys are taken as a LINE user ID
+  const user: DevUser = users[key] ?? { lineUserId: key === "default" ? "" : key };
+
+  const scopes = params.get("scopes");
+  const simulate = params.get("simulate") as DevScenario | null;
+
+  return {
+    lineUserId: user.lineUserId,
+    displayName: params.get("display_name") ?? user.displayName ?? "Dev User",
+    scopes: scopes !== null ? scopes.split(",").map((s) => s.trim()).filter(Boolean) : user.scopes,
+    simulate: simulate && DEV_SCENARIOS.includes(simulate) ? simulate : undefined,
+  };
+}
@@ -3,16 +3,62 @@
  *
  * Exports:
  *   - MyMCP: McpAgent Durable Object with your tools
- *   - default: OAuthProvider with LINE Login flow
+ *   - default: OAuthProvider with LINE Login flow (config problems are logged once per isolate),
+ *     with the env and endpoints of the request's tenant (see tenants.ts)
  */
 
 import OAuthProvider from "@cloudflare/workers-oauth-provider";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { McpAgent } from "agents/mcp";
-import { createAuthenticatedClient } from "./supabase-client";
-import { registerHello } from "./tools/hello";
+import {
+  AUDIT_FORWARD_INTERVAL_MS,
+  auditMiddleware,
+  createDurableObjectAuditLog,
+  DEFAULT_AUDIT_LOG_TABLE,
+  type AuditLog,
+} from "./audit";
+import { createAuthStrategy } from "./auth-strategy";
+import { logEnvIssuesOnce } from "./env";
+import { createLogger, type Logger } from "./logger";
+import { createMetricsSink, toolMetricsMiddleware } from "./metrics";
+import {
+  getIdentityState,
+  IDENTITY_CHECK_INTERVAL_MS,
+  identityMiddleware,
+  resetIdentity,
+  revalidateIdentity,
+  withIdentityCheck,
+  type IdentityBaseline,
+  type IdentityState,
+} from "./identity";
+import {
+  consumeRateLimit,
+  DEFAULT_USER_PLAN_TABLE,
+  getRateLimitConfig,
+  getUserPlan,
+  rateLimitMiddleware,
+  type RateLimitConfig,
+  type RateLimitRequest,
+  type RateLimitResult,
+} from "./rate-limit";
+import { createAuthenticatedClient, createDurableObjectSessionStore } from "./supabase-client";
+import { appendLineInbox, describeLineEvent, readLineInbox, type LineInboxEvent } from "./line-webhook";
+import { prompts } from "./prompts";
+import { registerPrompts } from "./prompts/registry";
+import { resources } from "./resources";
+import { registerResources } from "./resources/registry";
+import { getTenantEnv, resolveTenant, stripBasePath } from "./tenants";
+import { getEnabledTools } from "./tools";
+import { registerTools } from "./tools/registry";
 import { LineHandler } from "./line-handler";
-import type { Props } from "./utils";
+import {
+  getSessionObject,
+  getUserObject,
+  listSessions,
+  registerSession,
+  unregisterSessions,
+} from "./user-object";
+import type { LineTokenSet, Props } from "./utils";
 
 export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
   server = new McpServer({
@@ -20,27 +66,271 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
     version: "1.0.0",
   });
 
+  private auditLog?: AuditLog;
+  private identity?: IdentityState;
+  private tenantEnv?: Promise<Env | null>;
+
   async init() {
-    const getClient = () =>
-      createAuthenticatedClient(
-        this.env.SUPABASE_URL,
-        this.env.SUPABASE_ANON_KEY,
-        this.props.lineUserId,
-        this.env.COMMON_PASSWORD_PREFIX,
-      );
+    const env = await this.getEnv(this.props);
+    if (!env) {
+      // The tenant was deleted after the token was issued; its tokens no longer reach here
+      this.getLogger().error("Tenant is not configured", { tenantId: this.props.tenantId });
+      this.server.tool("error", "This server is no longer available", {}, async () => ({
+        content: [{ type: "text", text: `Tenant ${this.props.tenantId} is no longer configured. Sign in again.` }],
+        isError: true,
+      }));
+      return;
+    }
+
+    const contextProvider = {
+      getClient: () => this.getSupabaseClient(env, this.props),
+      getUserId: () => this.props.supabaseUserId,
+      getProps: () => this.props,
+      env,
+    };
+
+    // Listed in src/tools/, src/resources/ and src/prompts/ (index.ts in each)
+    registerTools(this.server, getEnabledTools(env), contextProvider, [
+      toolMetricsMiddleware(() => this.getLogger(), createMetricsSink(this.env)),
+      auditMiddleware(this.getAuditLog()),
+      identityMiddleware(() => this.checkIdentity(env)),
+      rateLimitMiddleware((call) => this.checkRateLimit(env, call)),
+    ]);
+    registerResources(this.server, resources, contextProvider);
+    registerPrompts(this.server, prompts, contextProvider);
+
+    // LINE webhook events arrive as logging notifications (see notifyLineEvent)
+    this.server.server.registerCapabilities({ logging: {} });
+    getUserObject(env, this.props.lineUserId)
+      .registerSession(this.ctx.id.toString())
+      .catch((error: unknown) => this.getLogger().error("Session registration failed", { error }));
+  }
+
+  // Forwards the audit log to Supabase in batches; rescheduled while entries remain.
+  async alarm() {
+    // Alarms can wake the object without a request, so props may not be loaded yet
+    const props = this.props ?? (await this.ctx.storage.get<Props>("props"));
+    if (!props?.lineUserId) return;
+
+    const env = await this.getEnv(props);
+    if (!env) return; // The tenant was deleted; its audit log has nowhere to go
 
-    const getUserId = () => this.props.supabaseUserId;
+    const client = await this.getSupabaseClient(env, props);
+    if (!client) return; // Retried when the next call is recorded
 
-    // Register your tools here
-    registerHello(this.server, getClient, getUserId);
+    const pending = await this.getAuditLog().forward(client, env.AUDIT_LOG_TABLE || DEFAULT_AUDIT_LOG_TABLE);
+    if (pending > 0) {
+      await this.ctx.storage.setAlarm(Date.now() + AUDIT_FORWARD_INTERVAL_MS);
+    }
   }
+
+  // ── RPC on the user object (see user-object.ts) ──
+
+  // The session passes its tenant's limits, since the user object has no env of its own tenant
+  async consumeRateLimit(request: RateLimitRequest, config: RateLimitConfig): Promise<RateLimitResult> {
+    return consumeRateLimit(this.ctx.storage, config, request);
+  }
+
+  async registerSession(sessionId: string) {
+    await registerSession(this.ctx.storage, sessionId);
+  }
+
+  /**
+   * Stores webhook events and forwards new ones to the user's live sessions.
+   * Sessions that cannot receive notifications are unregistered; a failed send is only
+   * logged, and later events are still sent (every event stays in the inbox anyway).
+   */
+  async handleLineEvents(events: LineInboxEvent[]) {
+    const added = await appendLineInbox(this.ctx.storage, events);
+    if (added.length === 0) return;
+
+    const gone: string[] = [];
+    for (const sessionId of await listSessions(this.ctx.storage)) {
+      const session = getSessionObject(this.env, sessionId);
+      for (const event of added) {
+        try {
+          if (!(await session.notifyLineEvent(event))) {
+            gone.push(sessionId);
+            break;
+          }
+        } catch (error: unknown) {
+          this.getLogger().error("LINE event notification failed", { sessionId, error });
+        }
+      }
+    }
+    await unregisterSessions(this.ctx.storage, gone);
+  }
+
+  async getLineInbox(since?: number): Promise<LineInboxEvent[]> {
+    return readLineInbox(this.ctx.storage, since);
+  }
+
+  async resetIdentity(identity: IdentityBaseline, lineTokens?: LineTokenSet) {
+    await resetIdentity(this.ctx.storage, identity, lineTokens);
+  }
+
+  async revalidateIdentity(props: Props, force = false): Promise<IdentityState> {
+    const env = await this.getEnv(props);
+    if (!env) {
+      throw new Error(`Tenant ${props.tenantId} is not configured`);
+    }
+    return revalidateIdentity(this.ctx.storage, env, props, force);
+  }
+
+  async getIdentityState(supabaseUserId: string): Promise<IdentityState | undefined> {
+    return getIdentityState(this.ctx.storage, supabaseUserId);
+  }
+
+  // ── RPC on session instances ──
+
+  /**
+   * Sends a LINE event to the connected client as a logging notification.
+   * Returns false when the session cannot receive it: only SSE sessions keep a stream open
+   * outside a request, and only while the client is connected. The session re-registers on
+   * its next start. Throws when the send itself fails.
+   */
+  async notifyLineEvent(event: LineInboxEvent): Promise<boolean> {
+    // Saved by McpAgent when the session connects
+    if ((await this.ctx.storage.get("transportType")) !== "sse") return false;
+
+    await this.ensureStarted();
+    if (this.ctx.getWebSockets().length === 0) return false;
+
+    await this.server.server.sendLoggingMessage({
+      level: "info",
+      logger: "line",
+      data: { message: describeLineEvent(event), event },
+    });
+    return true;
+  }
+
+  private async checkRateLimit(env: Env, call: { tool: string; clientId: string | null }): Promise<RateLimitResult> {
+    const plan = await getUserPlan(
+      this.ctx.storage,
+      () => this.getSupabaseClient(env, this.props),
+      env.USER_PLAN_TABLE || DEFAULT_USER_PLAN_TABLE,
+      this.props.supabaseUserId,
+    );
+
+    return getUserObject(env, this.props.lineUserId).consumeRateLimit({ ...call, plan }, getRateLimitConfig(env));
+  }
+
+  // Asks the user object at most every IDENTITY_CHECK_INTERVAL_MS and copies a changed profile into props
+  private async checkIdentity(env: Env): Promise<IdentityState | null> {
+    if (this.identity && Date.now() - this.identity.checkedAt < IDENTITY_CHECK_INTERVAL_MS) {
+      return this.identity;
+    }
+
+    try {
+      this.identity = await getUserObject(env, this.props.lineUserId).revalidateIdentity(this.props);
+    } catch (error: unknown) {
+      this.getLogger().error("Identity revalidation failed", { error });
+      return null;
+    }
+
+    const { displayName, pictureUrl } = this.identity;
+    if (displayName !== this.props.displayName || pictureUrl !== this.props.pictureUrl) {
+      // Persisted like McpAgent does, so the refreshed profile survives hibernation
+      this.props = { ...this.props, displayName, pictureUrl };
+      await this.ctx.storage.put("props", this.props);
+    }
+    return this.identity;
+  }
+
+  /**
+   * RPC calls do not run McpAgent's start-up, so after hibernation the session would have no
+   * props, tools or transport. fetch() runs it (onStart) before looking at the request, which
+   * is then answered with a 400 since it is not a WebSocket upgrade.
+   */
+  private async ensureStarted() {
+    if (this.server.isConnected()) return;
+    await this.fetch(new Request("https://session.internal/"));
+  }
+
+  // Entries carry the request ID of the authorization that issued this session's token
+  private getLogger(): Logger {
+    return createLogger({
+      requestId: this.props?.requestId,
+      tenantId: this.props?.tenantId,
+      sessionId: this.ctx.id.toString(),
+    });
+  }
+
+  /**
+   * The env of the tenant the token was issued for (this.env when there is none); null once
+   * the tenant is deleted. Read from TENANT_KV once per object, since an object only ever
+   * serves one tenant; a changed config applies when the object next starts.
+   */
+  private getEnv(props: Props | undefined): Promise<Env | null> {
+    this.tenantEnv ??= getTenantEnv(this.env, props?.tenantId).catch((error: unknown) => {
+      this.tenantEnv = undefined; // Read again on the next call
+      throw error;
+    });
+    return this.tenantEnv;
+  }
+
+  // Supabase session is cached in this Durable Object's storage and reused across tool calls
+  private async getSupabaseClient(env: Env, props: Props) {
+    return createAuthenticatedClient(
+      createAuthStrategy(env, this.getLogger()),
+      props.lineUserId,
+      createDurableObjectSessionStore(this.ctx.storage),
+    );
+  }
+
+  private getAuditLog(): AuditLog {
+    this.auditLog ??= createDurableObjectAuditLog(this.ctx.storage, () => {
+      void this.scheduleAuditForward();
+    });
+    return this.auditLog;
+  }
+
+  private async scheduleAuditForward() {
+    if ((await this.ctx.storage.getAlarm()) === null) {
+      await this.ctx.storage.setAlarm(Date.now() + AUDIT_FORWARD_INTERVAL_MS);
+    }
+  }
+}
+
+// One provider per base path: path-prefixed tenants (/t/{id}, see tenants.ts) get their own endpoints
+const oauthProviders = new Map<string, OAuthProvider>();
+
+function getOAuthProvider(basePath: string): OAuthProvider {
+  let oauthProvider = oauthProviders.get(basePath);
+  if (!oauthProvider) {
+    oauthProvider = new OAuthProvider({
+      apiHandlers: {
+        // Requests for revoked accounts are rejected before reaching a session (see identity.ts)
+        [`${basePath}/mcp`]: withIdentityCheck(MyMCP.serve(`${basePath}/mcp`)),
+        // SSE sessions can also receive LINE webhook notifications
+        [`${basePath}/sse`]: withIdentityCheck(MyMCP.serveSSE(`${basePath}/sse`)),
+      },
+      authorizeEndpoint: `${basePath}/authorize`,
+      tokenEndpoint: `${basePath}/token`,
+      clientRegistrationEndpoint: `${basePath}/register`,
+      // Typed with an unknown env by the provider, which hands on the env it is given (ours)
+      defaultHandler: lineHandlerAt(basePath) as ExportedHandler,
+    });
+    oauthProviders.set(basePath, oauthProvider);
+  }
+  return oauthProvider;
+}
+
+// The LINE handler's routes do not include the base path
+function lineHandlerAt(basePath: string): ExportedHandler<Env> {
+  return {
+    fetch: (request, env, ctx) => LineHandler.fetch(stripBasePath(request, basePath), env, ctx),
+  };
 }
 
-export default new OAuthProvider({
-  apiHandler: MyMCP.serve("/mcp"),
-  apiRoute: "/mcp",
-  authorizeEndpoint: "/authorize",
-  tokenEndpoint: "/token",
-  clientRegistrationEndpoint: "/register",
-  defaultHandler: LineHandler as any,
-});
+export default {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext) {
+    logEnvIssuesOnce(env);
+    // Requests of no tenant are served with the Worker's own vars
+    const tenant = await resolveTenant(request, env);
+    if (!tenant) {
+      return getOAuthProvider("").fetch(request, env, ctx);
+    }
+    return getOAuthProvider(tenant.basePath).fetch(tenant.request, tenant.env, ctx);
+  },
+} satisfies ExportedHandler<Env>;
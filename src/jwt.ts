@@ -0,0 +1,103 @@
+/**
+ * Minimal JWT helpers on top of WebCrypto (HS256 / ES256 / RS256).
+ */
+
+export type JwtHeader = { alg: string; typ?: string; kid?: string };
+
+/**
+ * Signs a payload as an HS256 JWT.
+ */
+export async function signHs256Jwt(payload: Record<string, unknown>, secret: string): Promise<string> {
+  const header = base64UrlEncode(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const body = base64UrlEncode(JSON.stringify(payload));
+  const key = await importHmacKey(secret, "sign");
+  const sig = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${header}.${body}`));
+  return `${header}.${body}.${base64UrlEncode(new Uint8Array(sig))}`;
+}
+
+/**
+ * Splits and decodes a JWT without verifying it. Returns null if malformed.
+ */
+export function decodeJwt<T = Record<string, unknown>>(
+  token: string,
+): { header: JwtHeader; payload: T; signingInput: string; signature: Uint8Array } | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+
+  try {
+    return {
+      header: JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[0]))) as JwtHeader,
+      payload: JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[1]))) as T,
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: base64UrlDecode(parts[2]),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verifies an HS256 signature with a shared secret.
+ */
+export async function verifyHs256(signingInput: string, signature: Uint8Array, secret: string): Promise<boolean> {
+  const key = await importHmacKey(secret, "verify");
+  return crypto.subtle.verify("HMAC", key, signature, new TextEncoder().encode(signingInput));
+}
+
+/**
+ * Verifies an ES256 signature with a P-256 public key in JWK form.
+ */
+export async function verifyEs256(signingInput: string, signature: Uint8Array, jwk: JsonWebKey): Promise<boolean> {
+  const key = await crypto.subtle.importKey(
+    "jwk",
+    jwk,
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["verify"],
+  );
+  return crypto.subtle.verify(
+    { name: "ECDSA", hash: "SHA-256" },
+    key,
+    signature,
+    new TextEncoder().encode(signingInput),
+  );
+}
+
+/**
+ * Verifies an RS256 signature with an RSA public key in JWK form.
+ */
+export async function verifyRs256(signingInput: string, signature: Uint8Array, jwk: JsonWebKey): Promise<boolean> {
+  const key = await crypto.subtle.importKey(
+    "jwk",
+    jwk,
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["verify"],
+  );
+  return crypto.subtle.verify("RSASSA-PKCS1-v1_5", key, signature, new TextEncoder().encode(signingInput));
+}
+
+export function base64UrlEncode(data: string | Uint8Array): string {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function base64UrlDecode(data: string): Uint8Array {
+  const base64 = data.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+// ── Helpers ──
+
+function importHmacKey(secret: string, usage: "sign" | "verify"): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    [usage],
+  );
+}
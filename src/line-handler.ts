@@ -1,213 +1,969 @@
 /**
  * LINE Login OAuth flow handler (Hono router).
+ * Other login providers (see identity-providers.ts) share the same routes.
  *
  * Routes:
- *   GET  /authorize  — Show approval dialog or redirect to LINE Login
- *   POST /authorize  — Handle approval confirmation, redirect to LINE Login
- *   GET  /callback   — Exchange code, get profile, sign in to Supabase, issue MCP token
+ *   GET  /authorize  — Redirect to the login provider, or let the user pick one
+ *   POST /authorize  — Handle the provider choice, redirect to the chosen login provider
+ *   GET  /callback   — Exchange code, verify ID token, sign in to Supabase, then issue the
+ *                      MCP token or show the approval dialog (see consent.ts)
+ *   POST /consent    — Record the approved scopes, issue MCP token
+ *   POST /onboarding — Create an account for a first-time user, then finish the authorization
+ *   GET  /account    — List MCP clients and logins of the LINE account (LINE login required)
+ *   POST /account/revoke — Revoke one grant and delete the client's consent
+ *   POST /account/link   — Link another login provider to the account
+ *   POST /account/unlink — Remove a linked login
+ *   POST /webhook    — LINE Messaging API webhook (events → user's MyMCP object)
+ *   GET  /healthz, /readyz — Liveness and readiness (see health-handler.ts)
+ *   /admin/*         — Admin API (see admin-handler.ts)
+ *   /__mock-line/*   — Mock LINE Login for offline testing, MOCK_LINE=true only (see mock-line.ts)
+ *
+ * Errors are redirected to the MCP client as RFC 6749 error responses when the
+ * authorization request is known, and shown as an error page otherwise.
+ *
+ * For path-prefixed tenants the routes are served under /t/{id}; the prefix is removed
+ * before routing and BASE_PATH puts it back into links and redirects (see tenants.ts).
+ *
+ * Every route logs through `c.var.log` with a request ID; the OAuth steps adopt the ID
+ * started by GET /authorize (see logger.ts) and are counted and timed (see metrics.ts).
  */
 
 import type { AuthRequest, OAuthHelpers } from "@cloudflare/workers-oauth-provider";
-import { Hono } from "hono";
-import { fetchLineProfile, fetchLineToken, getLineAuthorizeUrl, type Props } from "./utils";
+import { Hono, type Context } from "hono";
+import { AdminHandler } from "./admin-handler";
+import { HealthHandler } from "./health-handler";
+import { MockLineHandler } from "./mock-line";
+import type { LineTokenSet, Props } from "./utils";
+import { createIdentityLinkStore } from "./account-links";
+import { createAuthStrategy } from "./auth-strategy";
+import { consentCovers, createConsentStore } from "./consent";
+import { getCookieKeys } from "./cookie-keys";
+import { revokeUserGrants } from "./identity";
+import {
+  getIdentityProvider,
+  getIdentityProviders,
+  type IdentityProvider,
+  type IdentityProviderId,
+  type UpstreamIdentity,
+} from "./identity-providers";
+import { parseWebhookEvents, verifyLineSignature, type LineInboxEvent } from "./line-webhook";
+import { createLogger, getRequestId, logger, parseRequestId, type Logger } from "./logger";
+import { createMetricsSink } from "./metrics";
+import { prompts } from "./prompts";
+import { resources } from "./resources";
+import { collectScopes, describeScope } from "./scopes";
+import { getEnabledTools } from "./tools";
+import { createProvisioningHook, type LineProfile } from "./provisioning";
 import { signInWithLineId } from "./supabase-client";
+import { getUserObject } from "./user-object";
 import {
-  addApprovedClient,
   bindStateToSession,
+  consumeConsentRequestState,
+  consumeOnboardingState,
+  createAccountSession,
+  createConsentRequestState,
   createOAuthState,
+  createOnboardingState,
   generateCSRFProtection,
-  isClientApproved,
+  getAccountSession,
   OAuthError,
+  renderAccountPage,
   renderApprovalDialog,
+  renderLoginPage,
+  renderOnboardingPage,
   validateCSRFToken,
   validateOAuthState,
 } from "./workers-oauth-utils";
 
-const app = new Hono<{ Bindings: Env & { OAUTH_PROVIDER: OAuthHelpers } }>();
+type HandlerEnv = {
+  Bindings: Env & { OAUTH_PROVIDER: OAuthHelpers };
+  Variables: { requestId: string; log: Logger };
+};
+
+const app = new Hono<HandlerEnv>();
+
+// Routes counted and timed as OAuth steps
+const OAUTH_STEPS: Record<string, string> = {
+  "/authorize": "authorize",
+  "/callback": "callback",
+  "/consent": "consent",
+  "/onboarding": "onboarding",
+};
+
+app.use("*", async (c, next) => {
+  const start = Date.now();
+  useRequestId(c, getRequestId(c.req.raw));
+  await next();
+
+  const step = OAUTH_STEPS[c.req.path];
+  if (!step) return;
+
+  const outcome = isErrorResponse(c.res) ? "error" : "success";
+  const durationMs = Date.now() - start;
+  createMetricsSink(c.env).record({ kind: "oauth", name: step, outcome, durationMs });
+  c.var.log.info("oauth step", { step, method: c.req.method, status: c.res.status, outcome, durationMs });
+  c.res.headers.set("X-Request-Id", c.var.requestId);
+});
+
+// Shown on the login page, the approval dialog and the onboarding page
+const serverInfo = {
+  name: "My MCP Server",              // ← Change this
+  description: "Your service description here",  // ← Change this
+  logo: undefined as string | undefined,  // ← Optional: URL to your logo
+};
+
+/** serverInfo with the tenant's branding (SERVER_NAME etc., see tenants.ts) */
+function getServerInfo(env: Env) {
+  return {
+    name: env.SERVER_NAME || serverInfo.name,
+    description: env.SERVER_DESCRIPTION || serverInfo.description,
+    logo: env.SERVER_LOGO_URL || serverInfo.logo,
+  };
+}
+
+/** Every scope declared by an enabled tool, a resource or a prompt */
+function getAvailableScopes(env: Env): string[] {
+  return collectScopes(getEnabledTools(env), resources, prompts);
+}
+
+/** Scopes the client asked for that we know about; empty if it asked for none of them */
+function getRequestedScopes(env: Env, oauthReqInfo: AuthRequest): string[] {
+  const availableScopes = getAvailableScopes(env);
+  return oauthReqInfo.scope.filter((scope) => availableScopes.includes(scope));
+}
+
+/** Path on this server; path-prefixed tenants are served under BASE_PATH (see tenants.ts) */
+function serverPath(env: Env, path: string): string {
+  return `${env.BASE_PATH ?? ""}${path}`;
+}
+
+/** Sets the request ID (and the logger carrying it) for the rest of the request */
+function useRequestId(c: Context<HandlerEnv>, requestId: string) {
+  c.set("requestId", requestId);
+  c.set("log", createLogger({ requestId }));
+}
+
+/** Error pages, and error redirects back to the MCP client */
+function isErrorResponse(response: Response): boolean {
+  if (response.status >= 400) return true;
+  const location = response.headers.get("Location");
+  // Relative locations (e.g. /account) are never error redirects
+  return !!location && /^https?:/.test(location) && new URL(location).searchParams.has("error");
+}
 
 /** Ensure callback URL uses https when behind a reverse proxy (e.g. cloudflared) */
-function getCallbackUrl(request: Request): string {
-  const url = new URL("/callback", request.url);
+function getCallbackUrl(env: Env, request: Request): string {
+  const url = new URL(serverPath(env, "/callback"), request.url);
   if (url.hostname !== "localhost" && url.hostname !== "127.0.0.1") {
     url.protocol = "https:";
   }
   return url.href;
 }
 
-function redirectToLine(
+/**
+ * Sends an RFC 6749 error redirect to the MCP client when the authorization request is
+ * known and its redirect URI is registered for the client; otherwise shows an error page.
+ * Errors other than OAuthError become a generic server_error so internals do not leak.
+ */
+async function respondWithError(
+  env: Env & { OAUTH_PROVIDER: OAuthHelpers },
+  oauthReqInfo: AuthRequest | null | undefined,
+  error: unknown,
+  setCookie?: string,
+): Promise<Response> {
+  const oauthError = error instanceof OAuthError ? error : new OAuthError(500, "Internal server error");
+
+  let response = oauthError.toResponse();
+  if (oauthReqInfo?.clientId && oauthReqInfo.redirectUri) {
+    const client = await env.OAUTH_PROVIDER.lookupClient(oauthReqInfo.clientId);
+    if (client?.redirectUris.includes(oauthReqInfo.redirectUri)) {
+      response = oauthError.toRedirect(oauthReqInfo);
+    }
+  }
+
+  if (setCookie) {
+    response.headers.append("Set-Cookie", setCookie);
+  }
+  return response;
+}
+
+type AuthorizeOptions = {
+  provider?: IdentityProviderId;
+  lineTokens?: LineTokenSet;
+  setCookie?: string;
+  requestId?: string; // Stored in props to correlate the session's logs with this login
+  log?: Logger;
+};
+
+/**
+ * Completes the MCP authorization with the user's identity in props and redirects back to the client.
+ * The LINE token is handed to the user object so the profile in props can be refreshed later.
+ */
+async function issueMcpToken(
+  env: Env & { OAUTH_PROVIDER: OAuthHelpers },
+  oauthReqInfo: AuthRequest,
+  profile: LineProfile,
+  supabaseUserId: string,
+  { provider = "line", lineTokens, setCookie, requestId, log = logger }: AuthorizeOptions = {},
+): Promise<Response> {
+  let redirectTo: string;
+  try {
+    ({ redirectTo } = await env.OAUTH_PROVIDER.completeAuthorization({
+      request: oauthReqInfo,
+      userId: profile.lineUserId,
+      metadata: {
+        label: profile.displayName,
+        supabaseUserId, // Lets revokeUserGrants pick the grants of a revoked account
+      },
+      scope: oauthReqInfo.scope,
+      props: {
+        lineUserId: profile.lineUserId,
+        supabaseUserId,
+        displayName: profile.displayName,
+        pictureUrl: profile.pictureUrl,
+        email: profile.email,
+        scopes: oauthReqInfo.scope,
+        clientId: oauthReqInfo.clientId,
+        provider,
+        requestId,
+        tenantId: env.TENANT_ID,
+      } as Props,
+    }));
+  } catch (error: unknown) {
+    log.error("completeAuthorization failed", { error });
+    return respondWithError(env, oauthReqInfo, error, setCookie);
+  }
+
+  await getUserObject(env, profile.lineUserId)
+    .resetIdentity(
+      { supabaseUserId, displayName: profile.displayName, pictureUrl: profile.pictureUrl },
+      lineTokens,
+    )
+    .catch((error: unknown) => log.error("Identity reset failed", { error }));
+  // Lets logins from other providers find this account's LINE identity (see account-links.ts)
+  if (provider === "line") {
+    await createIdentityLinkStore(env)?.upsert(supabaseUserId, "line", profile.lineUserId);
+  }
+
+  log.info("MCP token issued", { clientId: oauthReqInfo.clientId, provider, scopes: oauthReqInfo.scope });
+  const headers = new Headers({ Location: redirectTo });
+  if (setCookie) {
+    headers.set("Set-Cookie", setCookie);
+  }
+  return new Response(null, { status: 302, headers });
+}
+
+/**
+ * Issues the MCP token right away when the user's stored consent covers the requested scopes;
+ * otherwise shows the approval dialog, which POST /consent completes.
+ */
+async function authorizeWithConsent(
+  env: Env & { OAUTH_PROVIDER: OAuthHelpers },
   request: Request,
-  stateToken: string,
-  channelId: string,
-  headers: Record<string, string> = {},
-): Response {
-  return new Response(null, {
-    status: 302,
-    headers: {
-      ...headers,
-      Location: getLineAuthorizeUrl({
-        channelId,
-        redirectUri: getCallbackUrl(request),
-        state: stateToken,
-      }),
+  oauthReqInfo: AuthRequest,
+  profile: LineProfile,
+  supabaseUserId: string,
+  options: AuthorizeOptions = {},
+): Promise<Response> {
+  const requestedScopes = getRequestedScopes(env, oauthReqInfo);
+  const consent = await createConsentStore(env).get(profile.lineUserId, oauthReqInfo.clientId);
+  if (consentCovers(consent, requestedScopes)) {
+    const grantedScopes = requestedScopes.length > 0 ? requestedScopes : consent.scopes;
+    return issueMcpToken(env, { ...oauthReqInfo, scope: grantedScopes }, profile, supabaseUserId, options);
+  }
+
+  const consentToken = await createConsentRequestState(
+    {
+      oauthReqInfo,
+      profile,
+      supabaseUserId,
+      provider: options.provider ?? "line",
+      lineTokens: options.lineTokens,
+      requestId: options.requestId,
     },
+    env.OAUTH_KV,
+  );
+  const { token: csrfToken, setCookie } = generateCSRFProtection();
+  const response = renderApprovalDialog(request, {
+    client: await env.OAUTH_PROVIDER.lookupClient(oauthReqInfo.clientId),
+    csrfToken,
+    server: getServerInfo(env),
+    basePath: env.BASE_PATH,
+    scopes: (requestedScopes.length > 0 ? requestedScopes : getAvailableScopes(env)).map((scope) => ({
+      name: scope,
+      description: describeScope(scope),
+    })),
+    displayName: profile.displayName,
+    consentToken,
+    setCookie,
   });
+  if (options.setCookie) {
+    response.headers.append("Set-Cookie", options.setCookie);
+  }
+  return response;
+}
+
+async function redirectToProvider(
+  env: Env,
+  request: Request,
+  provider: IdentityProvider,
+  { stateToken, nonce, codeChallenge }: { stateToken: string; nonce: string; codeChallenge: string },
+  headersInit: HeadersInit = {},
+): Promise<Response> {
+  const headers = new Headers(headersInit);
+  headers.set(
+    "Location",
+    await provider.authorizeUrl({ redirectUri: getCallbackUrl(env, request), state: stateToken, nonce, codeChallenge }),
+  );
+  return new Response(null, { status: 302, headers });
 }
 
-// ── GET /authorize — Show approval dialog or redirect to LINE Login ──
+// ── GET /authorize — Redirect to the login provider or show the provider choice ──
 
 app.get("/authorize", async (c) => {
-  const oauthReqInfo = await c.env.OAUTH_PROVIDER.parseAuthRequest(c.req.raw);
+  // The redirect URI is not trusted until parsed, so errors here are shown as a page
+  let oauthReqInfo: AuthRequest;
+  try {
+    oauthReqInfo = await c.env.OAUTH_PROVIDER.parseAuthRequest(c.req.raw);
+  } catch (error: unknown) {
+    return new OAuthError(400, error instanceof Error ? error.message : "Invalid authorization request").toResponse();
+  }
+
   const { clientId } = oauthReqInfo;
   if (!clientId) {
-    return c.text("Invalid request", 400);
+    return new OAuthError(400, "Missing client_id").toResponse();
   }
 
-  // If client is already approved, skip dialog and go straight to LINE
-  if (await isClientApproved(c.req.raw, clientId, c.env.COOKIE_ENCRYPTION_KEY)) {
-    const { stateToken } = await createOAuthState(oauthReqInfo, c.env.OAUTH_KV);
-    const { setCookie: sessionBindingCookie } = await bindStateToSession(stateToken);
-    return redirectToLine(c.req.raw, stateToken, c.env.LINE_CHANNEL_ID, { "Set-Cookie": sessionBindingCookie });
+  // With a single provider, log in right away; consent is checked after login (see authorizeWithConsent)
+  const providers = getIdentityProviders(c.env);
+  if (providers.length === 1) {
+    const oauthState = await createOAuthState(oauthReqInfo, c.env.OAUTH_KV, { requestId: c.var.requestId });
+    const { setCookie: sessionBindingCookie } = await bindStateToSession(oauthState.stateToken);
+    return redirectToProvider(c.env, c.req.raw, providers[0], oauthState, { "Set-Cookie": sessionBindingCookie });
   }
 
-  // Show approval dialog
+  // Show the provider choice
   const { token: csrfToken, setCookie } = generateCSRFProtection();
-  return renderApprovalDialog(c.req.raw, {
+  return renderLoginPage(c.req.raw, {
     client: await c.env.OAUTH_PROVIDER.lookupClient(clientId),
     csrfToken,
-    server: {
-      name: "My MCP Server",              // ← Change this
-      description: "Your service description here",  // ← Change this
-      logo: undefined,                     // ← Optional: URL to your logo
-    },
+    server: getServerInfo(c.env),
+    basePath: c.env.BASE_PATH,
+    providers: providers.map(({ id, label }) => ({ id, label })),
     setCookie,
-    state: { oauthReqInfo },
+    state: { oauthReqInfo, requestId: c.var.requestId },
   });
 });
 
-// ── POST /authorize — Confirm approval, redirect to LINE Login ──
+// ── POST /authorize — Provider choice, redirect to the chosen login provider ──
 
 app.post("/authorize", async (c) => {
+  // Comes from the form, so respondWithError checks its redirect URI against the client
+  let oauthReqInfo: AuthRequest | undefined;
+
   try {
     const formData = await c.req.raw.formData();
-    validateCSRFToken(formData, c.req.raw);
 
     const encodedState = formData.get("state");
     if (!encodedState || typeof encodedState !== "string") {
-      return c.text("Missing state in form data", 400);
+      throw new OAuthError(400, "Missing state in form data");
     }
 
-    let state: { oauthReqInfo?: AuthRequest };
+    let state: { oauthReqInfo?: AuthRequest; requestId?: string };
     try {
       state = JSON.parse(atob(encodedState));
     } catch {
-      return c.text("Invalid state data", 400);
+      throw new OAuthError(400, "Invalid state data");
     }
+    oauthReqInfo = state.oauthReqInfo;
+    const requestId = parseRequestId(state.requestId);
+    if (requestId) useRequestId(c, requestId);
+
+    validateCSRFToken(formData, c.req.raw);
 
     if (!state.oauthReqInfo || !state.oauthReqInfo.clientId) {
-      return c.text("Invalid request", 400);
+      throw new OAuthError(400, "Invalid request");
     }
 
-    const approvedClientCookie = await addApprovedClient(
-      c.req.raw,
-      state.oauthReqInfo.clientId,
-      c.env.COOKIE_ENCRYPTION_KEY,
-    );
-
-    const { stateToken } = await createOAuthState(state.oauthReqInfo, c.env.OAUTH_KV);
-    const { setCookie: sessionBindingCookie } = await bindStateToSession(stateToken);
+    if (formData.get("action") === "deny") {
+      throw new OAuthError(403, "The user cancelled the login", "access_denied");
+    }
 
-    const headers = new Headers();
-    headers.append("Set-Cookie", approvedClientCookie);
-    headers.append("Set-Cookie", sessionBindingCookie);
+    const providerId = formData.get("provider");
+    const provider = getIdentityProvider(c.env, typeof providerId === "string" ? providerId : "line");
+    if (!provider) {
+      throw new OAuthError(400, "Unknown login provider");
+    }
 
-    return redirectToLine(c.req.raw, stateToken, c.env.LINE_CHANNEL_ID, Object.fromEntries(headers));
+    const oauthState = await createOAuthState(state.oauthReqInfo, c.env.OAUTH_KV, {
+      provider: provider.id,
+      requestId: c.var.requestId,
+    });
+    const { setCookie: sessionBindingCookie } = await bindStateToSession(oauthState.stateToken);
+    return redirectToProvider(c.env, c.req.raw, provider, oauthState, { "Set-Cookie": sessionBindingCookie });
   } catch (error: unknown) {
-    console.error("POST /authorize error:", error);
-    if (error instanceof OAuthError) {
-      return error.toResponse();
-    }
-    return c.text(`Internal server error: ${error instanceof Error ? error.message : String(error)}`, 500);
+    c.var.log.error("POST /authorize failed", { error });
+    return respondWithError(c.env, oauthReqInfo, error);
   }
 });
 
-// ── GET /callback — LINE token exchange → Profile → Supabase login → MCP token ──
+// ── GET /callback — Provider token exchange → ID token → Supabase login → consent → MCP token ──
 
 app.get("/callback", async (c) => {
+  // Providers redirect with error/error_description instead of a code when login fails or is cancelled
+  const upstreamErrorCode = c.req.query("error");
+  const upstreamError = upstreamErrorCode
+    ? upstreamErrorCode === "access_denied"
+      ? new OAuthError(403, c.req.query("error_description") || "The user cancelled the login", "access_denied")
+      : new OAuthError(
+          502,
+          `Login failed: ${c.req.query("error_description") || upstreamErrorCode}`,
+          "server_error",
+        )
+    : null;
+
   // 1. Validate OAuth state
-  let oauthReqInfo: AuthRequest;
-  let clearSessionCookie: string;
+  let state: Awaited<ReturnType<typeof validateOAuthState>>;
+  try {
+    state = await validateOAuthState(c.req.raw, c.env.OAUTH_KV);
+  } catch (error: unknown) {
+    // Without valid state the client is unknown, so only an error page can be shown
+    return respondWithError(c.env, null, upstreamError ?? error);
+  }
+  const { oauthReqInfo, clearCookie: clearSessionCookie } = state;
+  if (state.requestId) useRequestId(c, state.requestId);
+  const log = c.var.log;
 
+  if (oauthReqInfo && !oauthReqInfo.clientId) {
+    return respondWithError(c.env, null, new OAuthError(400, "Invalid OAuth request data"), clearSessionCookie);
+  }
+
+  if (upstreamError) {
+    return respondWithError(c.env, oauthReqInfo, upstreamError, clearSessionCookie);
+  }
+
+  // 2. Exchange the code with the provider that started the login and verify its ID token
+  let identity: UpstreamIdentity;
   try {
-    const result = await validateOAuthState(c.req.raw, c.env.OAUTH_KV);
-    oauthReqInfo = result.oauthReqInfo;
-    clearSessionCookie = result.clearCookie;
+    const provider = getIdentityProvider(c.env, state.provider);
+    if (!provider) {
+      throw new OAuthError(400, `Login provider "${state.provider}" is not configured`);
+    }
+    const code = c.req.query("code");
+    if (!code) {
+      throw new OAuthError(502, "Missing authorization code from the identity provider");
+    }
+    identity = await provider.exchangeCode({
+      code,
+      redirectUri: getCallbackUrl(c.env, c.req.raw),
+      codeVerifier: state.codeVerifier,
+      nonce: state.nonce,
+      log,
+    });
   } catch (error: unknown) {
-    if (error instanceof OAuthError) {
-      return error.toResponse();
+    log.error("Login provider code exchange failed", { provider: state.provider, error });
+    return respondWithError(c.env, oauthReqInfo, error, clearSessionCookie);
+  }
+
+  // Account page: link the identity to the signed-in account
+  if (state.linkTo) {
+    return linkIdentity(c.env, c.req.raw, state.linkTo, identity, clearSessionCookie, log);
+  }
+
+  // Account page login: no MCP authorization to complete
+  if (!oauthReqInfo) {
+    if (identity.provider !== "line") {
+      return respondWithError(
+        c.env,
+        null,
+        new OAuthError(400, "The account page requires LINE Login"),
+        clearSessionCookie,
+      );
+    }
+    try {
+      // The Supabase account is only needed to show and link other logins
+      const supabaseResult = await signInWithLineId(createAuthStrategy(c.env, log), identity.subject);
+      const supabaseUserId = supabaseResult.status === "ok" ? supabaseResult.supabaseUserId : undefined;
+      if (supabaseUserId) {
+        await createIdentityLinkStore(c.env)?.upsert(supabaseUserId, "line", identity.subject);
+      }
+      const accountCookie = await createAccountSession(
+        {
+          lineUserId: identity.subject,
+          displayName: identity.displayName,
+          supabaseUserId,
+          tenantId: c.env.TENANT_ID,
+        },
+        getCookieKeys(c.env),
+      );
+      const headers = new Headers({ Location: serverPath(c.env, "/account") });
+      headers.append("Set-Cookie", accountCookie);
+      headers.append("Set-Cookie", clearSessionCookie);
+      return new Response(null, { status: 302, headers });
+    } catch (error: unknown) {
+      log.error("Account page login failed", { error });
+      return respondWithError(c.env, null, error, clearSessionCookie);
     }
-    return c.text("Internal server error", 500);
   }
 
-  if (!oauthReqInfo.clientId) {
-    return c.text("Invalid OAuth request data", 400);
+  // 3. Other providers sign in through the LINE identity of the account they are linked to
+  if (identity.provider !== "line") {
+    try {
+      const account = await resolveLinkedAccount(c.env, identity, log);
+      const profile: LineProfile = {
+        lineUserId: account.lineUserId,
+        displayName: identity.displayName,
+        pictureUrl: identity.pictureUrl,
+        email: identity.email,
+      };
+      return await authorizeWithConsent(c.env, c.req.raw, oauthReqInfo, profile, account.supabaseUserId, {
+        provider: identity.provider,
+        setCookie: clearSessionCookie,
+        requestId: c.var.requestId,
+        log,
+      });
+    } catch (error: unknown) {
+      log.error("Linked account sign-in failed", { provider: identity.provider, error });
+      return respondWithError(c.env, oauthReqInfo, error, clearSessionCookie);
+    }
   }
 
-  // 2. Exchange LINE authorization code for access token
-  const code = c.req.query("code");
-  if (!code) {
-    return c.text("Missing authorization code", 400);
+  // 4. Sign in to Supabase using LINE user ID
+  const profile: LineProfile = {
+    lineUserId: identity.subject,
+    displayName: identity.displayName,
+    pictureUrl: identity.pictureUrl,
+    email: identity.email,
+  };
+  try {
+    // Throws when the auth strategy or provisioning hook is misconfigured
+    const supabaseResult = await signInWithLineId(createAuthStrategy(c.env, log), identity.subject);
+
+    if (supabaseResult.status === "error") {
+      // Not a missing account: onboarding would try to create a second one
+      throw new OAuthError(
+        503,
+        "Sign-in is temporarily unavailable. Please try again later.",
+        "temporarily_unavailable",
+      );
+    }
+
+    if (supabaseResult.status === "not_found") {
+      // First-time user: offer to create an account if a provisioning hook is configured
+      if (createProvisioningHook(c.env)) {
+        const onboardingToken = await createOnboardingState(
+          { oauthReqInfo, profile, lineTokens: identity.lineTokens, requestId: c.var.requestId },
+          c.env.OAUTH_KV,
+        );
+        const client = await c.env.OAUTH_PROVIDER.lookupClient(oauthReqInfo.clientId);
+        const { token: csrfToken, setCookie } = generateCSRFProtection();
+        const response = renderOnboardingPage({
+          profile,
+          clientName: client?.clientName || oauthReqInfo.clientId,
+          server: getServerInfo(c.env),
+          basePath: c.env.BASE_PATH,
+          csrfToken,
+          onboardingToken,
+          setCookie,
+        });
+        response.headers.append("Set-Cookie", clearSessionCookie);
+        return response;
+      }
+
+      throw new OAuthError(403, "Account not found. Please register via the app first.", "access_denied");
+    }
+
+    // 5. Issue MCP token with user context in props, once the user has approved the client
+    return await authorizeWithConsent(c.env, c.req.raw, oauthReqInfo, profile, supabaseResult.supabaseUserId, {
+      lineTokens: identity.lineTokens,
+      setCookie: clearSessionCookie,
+      requestId: c.var.requestId,
+      log,
+    });
+  } catch (error: unknown) {
+    if (!(error instanceof OAuthError) || error.statusCode >= 500) {
+      log.error("Supabase sign-in failed", { error });
+    }
+    return respondWithError(c.env, oauthReqInfo, error, clearSessionCookie);
   }
+});
 
-  const [lineAccessToken, errResponse] = await fetchLineToken({
-    code,
-    channelId: c.env.LINE_CHANNEL_ID,
-    channelSecret: c.env.LINE_CHANNEL_SECRET,
-    redirectUri: getCallbackUrl(c.req.raw),
-  });
-  if (errResponse) return errResponse;
+/**
+ * Finds the account an identity from another provider is linked to and checks that its
+ * LINE identity still signs in to it. Throws access_denied if it is not linked.
+ */
+async function resolveLinkedAccount(
+  env: Env,
+  identity: UpstreamIdentity,
+  log: Logger,
+): Promise<{ lineUserId: string; supabaseUserId: string }> {
+  const store = createIdentityLinkStore(env);
+  const supabaseUserId = store ? await store.find(identity.provider, identity.subject) : null;
+  if (!store || !supabaseUserId) {
+    throw new OAuthError(
+      403,
+      "This login is not linked to an account. Sign in with LINE and link it on the account page first.",
+      "access_denied",
+    );
+  }
 
-  // 3. Fetch LINE user profile
-  const profile = await fetchLineProfile(lineAccessToken);
-  if (!profile) {
-    return c.text("Failed to fetch LINE profile", 500);
+  const line = (await store.list(supabaseUserId)).find((link) => link.provider === "line");
+  const result = line ? await signInWithLineId(createAuthStrategy(env, log), line.subject) : null;
+  if (result?.status === "error") {
+    throw new OAuthError(
+      503,
+      "Sign-in is temporarily unavailable. Please try again later.",
+      "temporarily_unavailable",
+    );
   }
+  if (!line || result?.status !== "ok" || result.supabaseUserId !== supabaseUserId) {
+    throw new OAuthError(403, "Could not sign in to the linked account", "access_denied");
+  }
+  return { lineUserId: line.subject, supabaseUserId };
+}
 
-  // 4. Sign in to Supabase using LINE user ID
-  const supabaseResult = await signInWithLineId(
-    c.env.SUPABASE_URL,
-    c.env.SUPABASE_ANON_KEY,
-    profile.userId,
-    c.env.COMMON_PASSWORD_PREFIX,
-  );
+/**
+ * Finishes "link another login" from the account page. The account page session must
+ * still belong to the LINE user that started it.
+ */
+async function linkIdentity(
+  env: Env & { OAUTH_PROVIDER: OAuthHelpers },
+  request: Request,
+  linkTo: string,
+  identity: UpstreamIdentity,
+  clearSessionCookie: string,
+  log: Logger,
+): Promise<Response> {
+  try {
+    const session = await getAccountSession(request, getCookieKeys(env), env.TENANT_ID);
+    if (!session || session.lineUserId !== linkTo || !session.supabaseUserId) {
+      throw new OAuthError(403, "The account page session has expired. Open /account and try again.", "access_denied");
+    }
+    if (identity.provider === "line") {
+      throw new OAuthError(400, "LINE is already the account's primary login");
+    }
+
+    const store = createIdentityLinkStore(env);
+    if (!store) {
+      throw new OAuthError(501, "Identity linking is not configured", "server_error");
+    }
+    if (!(await store.link(session.supabaseUserId, identity.provider, identity.subject))) {
+      throw new OAuthError(409, "This login is already linked to another account");
+    }
+    log.info("Identity linked", { provider: identity.provider });
+  } catch (error: unknown) {
+    return respondWithError(env, null, error, clearSessionCookie);
+  }
+
+  const headers = new Headers({ Location: serverPath(env, "/account") });
+  headers.append("Set-Cookie", clearSessionCookie);
+  return new Response(null, { status: 302, headers });
+}
+
+// ── POST /consent — Record the approval, issue MCP token ──
+
+app.post("/consent", async (c) => {
+  let oauthReqInfo: AuthRequest | undefined;
 
-  if (!supabaseResult) {
-    return new Response(
-      "Account not found. Please register via the app first.",
-      { status: 403 },
+  try {
+    const formData = await c.req.raw.formData();
+    validateCSRFToken(formData, c.req.raw);
+
+    const consentToken = formData.get("consent_token");
+    if (!consentToken || typeof consentToken !== "string") {
+      throw new OAuthError(400, "Missing consent_token");
+    }
+
+    const request = await consumeConsentRequestState(consentToken, c.env.OAUTH_KV);
+    oauthReqInfo = request.oauthReqInfo;
+    if (request.requestId) useRequestId(c, request.requestId);
+
+    if (formData.get("action") === "deny") {
+      throw new OAuthError(403, "The user denied the request", "access_denied");
+    }
+
+    // Only scopes the user left checked are granted
+    const availableScopes = getAvailableScopes(c.env);
+    const grantedScopes = formData
+      .getAll("scope")
+      .filter((scope): scope is string => typeof scope === "string" && availableScopes.includes(scope));
+
+    await createConsentStore(c.env).approve(request.profile.lineUserId, oauthReqInfo.clientId, grantedScopes);
+
+    return await issueMcpToken(
+      c.env,
+      { ...oauthReqInfo, scope: grantedScopes },
+      request.profile,
+      request.supabaseUserId,
+      {
+        provider: request.provider,
+        lineTokens: request.lineTokens,
+        requestId: c.var.requestId,
+        log: c.var.log,
+      },
     );
+  } catch (error: unknown) {
+    c.var.log.error("POST /consent failed", { error });
+    return respondWithError(c.env, oauthReqInfo, error);
   }
+});
 
-  // 5. Issue MCP token with user context in props
-  const { redirectTo } = await c.env.OAUTH_PROVIDER.completeAuthorization({
-    request: oauthReqInfo,
-    userId: profile.userId,
-    metadata: {
-      label: profile.displayName,
-    },
-    scope: oauthReqInfo.scope,
-    props: {
-      lineUserId: profile.userId,
-      supabaseUserId: supabaseResult.supabaseUserId,
-      displayName: profile.displayName,
-    } as Props,
+// ── POST /onboarding — Create the account, then finish the original authorization ──
+
+app.post("/onboarding", async (c) => {
+  let oauthReqInfo: AuthRequest | undefined;
+
+  try {
+    const formData = await c.req.raw.formData();
+    validateCSRFToken(formData, c.req.raw);
+
+    const onboardingToken = formData.get("onboarding_token");
+    if (!onboardingToken || typeof onboardingToken !== "string") {
+      throw new OAuthError(400, "Missing onboarding_token");
+    }
+
+    const onboarding = await consumeOnboardingState(onboardingToken, c.env.OAUTH_KV);
+    oauthReqInfo = onboarding.oauthReqInfo;
+    if (onboarding.requestId) useRequestId(c, onboarding.requestId);
+
+    if (formData.get("action") === "cancel") {
+      throw new OAuthError(403, "The user declined to create an account", "access_denied");
+    }
+
+    const hook = createProvisioningHook(c.env);
+    if (!hook || !(await hook.provision(onboarding.profile))) {
+      throw new OAuthError(500, "Failed to create account");
+    }
+
+    const supabaseResult = await signInWithLineId(
+      createAuthStrategy(c.env, c.var.log),
+      onboarding.profile.lineUserId,
+    );
+    if (supabaseResult.status !== "ok") {
+      throw new OAuthError(500, "Account was created but sign-in failed");
+    }
+
+    return await authorizeWithConsent(
+      c.env,
+      c.req.raw,
+      oauthReqInfo,
+      onboarding.profile,
+      supabaseResult.supabaseUserId,
+      { lineTokens: onboarding.lineTokens, requestId: c.var.requestId, log: c.var.log },
+    );
+  } catch (error: unknown) {
+    c.var.log.error("POST /onboarding failed", { error });
+    return respondWithError(c.env, oauthReqInfo, error);
+  }
+});
+
+// ── GET /account — List authorized MCP clients and linked logins ──
+
+app.get("/account", async (c) => {
+  const session = await getAccountSession(c.req.raw, getCookieKeys(c.env), c.env.TENANT_ID);
+
+  // Not signed in: LINE login without an MCP request, /callback sends us back here
+  if (!session) {
+    const oauthState = await createOAuthState(null, c.env.OAUTH_KV, { requestId: c.var.requestId });
+    const { setCookie: sessionBindingCookie } = await bindStateToSession(oauthState.stateToken);
+    return redirectToProvider(c.env, c.req.raw, getIdentityProviders(c.env)[0], oauthState, {
+      "Set-Cookie": sessionBindingCookie,
+    });
+  }
+
+  const grants = [];
+  let cursor: string | undefined;
+  do {
+    const page = await c.env.OAUTH_PROVIDER.listUserGrants(session.lineUserId, { cursor });
+    grants.push(...page.items);
+    cursor = page.cursor;
+  } while (cursor);
+  const consents = await createConsentStore(c.env).list(session.lineUserId);
+
+  // Linking needs the Supabase account and the link table
+  const providers = getIdentityProviders(c.env);
+  const store = createIdentityLinkStore(c.env);
+  const links = store && session.supabaseUserId ? await store.list(session.supabaseUserId) : null;
+
+  const { token: csrfToken, setCookie } = generateCSRFProtection();
+  return renderAccountPage({
+    basePath: c.env.BASE_PATH,
+    displayName: session.displayName,
+    grants: await Promise.all(
+      grants.map(async (grant) => {
+        const client = await c.env.OAUTH_PROVIDER.lookupClient(grant.clientId);
+        return {
+          id: grant.id,
+          clientName: client?.clientName || grant.clientId,
+          scopes: grant.scope,
+          createdAt: grant.createdAt,
+          consentExpiresAt: consents.find((consent) => consent.clientId === grant.clientId)?.expiresAt,
+        };
+      }),
+    ),
+    identities:
+      links && providers.length > 1
+        ? {
+            linked: links.map((link) => ({
+              ...link,
+              label: providers.find((provider) => provider.id === link.provider)?.label ?? link.provider,
+            })),
+            linkable: providers
+              .filter((provider) => !links.some((link) => link.provider === provider.id))
+              .map(({ id, label }) => ({ id, label })),
+          }
+        : undefined,
+    csrfToken,
+    setCookie,
   });
+});
 
-  const headers = new Headers({ Location: redirectTo });
-  if (clearSessionCookie) {
-    headers.set("Set-Cookie", clearSessionCookie);
+// ── POST /account/revoke — Revoke a grant ──
+
+app.post("/account/revoke", async (c) => {
+  try {
+    const formData = await c.req.raw.formData();
+    validateCSRFToken(formData, c.req.raw);
+
+    const session = await getAccountSession(c.req.raw, getCookieKeys(c.env), c.env.TENANT_ID);
+    if (!session) {
+      return c.redirect(serverPath(c.env, "/account"), 303);
+    }
+
+    const grantId = formData.get("grant_id");
+    if (!grantId || typeof grantId !== "string") {
+      throw new OAuthError(400, "Missing grant_id");
+    }
+
+    // Look the grant up among this user's grants so the client's consent can be deleted too
+    let grant;
+    let cursor: string | undefined;
+    do {
+      const page = await c.env.OAUTH_PROVIDER.listUserGrants(session.lineUserId, { cursor });
+      grant = page.items.find((item) => item.id === grantId);
+      cursor = page.cursor;
+    } while (!grant && cursor);
+
+    if (!grant) {
+      throw new OAuthError(404, "Grant not found");
+    }
+
+    await c.env.OAUTH_PROVIDER.revokeGrant(grant.id, session.lineUserId);
+    await createConsentStore(c.env).revoke(session.lineUserId, grant.clientId);
+
+    return c.redirect(serverPath(c.env, "/account"), 303);
+  } catch (error: unknown) {
+    c.var.log.error("POST /account/revoke failed", { error });
+    return respondWithError(c.env, null, error);
   }
+});
 
-  return new Response(null, { status: 302, headers });
+// ── POST /account/link — Log in with another provider to link it ──
+
+app.post("/account/link", async (c) => {
+  try {
+    const formData = await c.req.raw.formData();
+    validateCSRFToken(formData, c.req.raw);
+
+    const session = await getAccountSession(c.req.raw, getCookieKeys(c.env), c.env.TENANT_ID);
+    if (!session) {
+      return c.redirect(serverPath(c.env, "/account"), 303);
+    }
+
+    const providerId = formData.get("provider");
+    const provider = typeof providerId === "string" ? getIdentityProvider(c.env, providerId) : null;
+    if (!provider || provider.id === "line") {
+      throw new OAuthError(400, "Unknown login provider");
+    }
+
+    // /callback links the identity instead of completing an MCP authorization
+    const oauthState = await createOAuthState(null, c.env.OAUTH_KV, {
+      provider: provider.id,
+      linkTo: session.lineUserId,
+      requestId: c.var.requestId,
+    });
+    const { setCookie: sessionBindingCookie } = await bindStateToSession(oauthState.stateToken);
+    return redirectToProvider(c.env, c.req.raw, provider, oauthState, { "Set-Cookie": sessionBindingCookie });
+  } catch (error: unknown) {
+    c.var.log.error("POST /account/link failed", { error });
+    return respondWithError(c.env, null, error);
+  }
 });
 
+// ── POST /account/unlink — Remove a linked login ──
+
+app.post("/account/unlink", async (c) => {
+  try {
+    const formData = await c.req.raw.formData();
+    validateCSRFToken(formData, c.req.raw);
+
+    const session = await getAccountSession(c.req.raw, getCookieKeys(c.env), c.env.TENANT_ID);
+    if (!session?.supabaseUserId) {
+      return c.redirect(serverPath(c.env, "/account"), 303);
+    }
+
+    const provider = formData.get("provider");
+    const subject = formData.get("subject");
+    if (typeof provider !== "string" || typeof subject !== "string") {
+      throw new OAuthError(400, "Missing provider or subject");
+    }
+    // The LINE link is how every other login signs in, so it cannot be removed here
+    if (provider === "line") {
+      throw new OAuthError(400, "The LINE login cannot be unlinked");
+    }
+
+    const store = createIdentityLinkStore(c.env);
+    if (!store || !(await store.unlink(session.supabaseUserId, provider as IdentityProviderId, subject))) {
+      throw new OAuthError(500, "Failed to unlink the login");
+    }
+    return c.redirect(serverPath(c.env, "/account"), 303);
+  } catch (error: unknown) {
+    c.var.log.error("POST /account/unlink failed", { error });
+    return respondWithError(c.env, null, error);
+  }
+});
+
+// ── POST /webhook — LINE Messaging API events ──
+
+app.post("/webhook", async (c) => {
+  if (!c.env.LINE_MESSAGING_CHANNEL_SECRET) {
+    return c.notFound();
+  }
+
+  const body = await c.req.text();
+  const signature = c.req.header("X-Line-Signature");
+  if (!(await verifyLineSignature(body, signature, c.env.LINE_MESSAGING_CHANNEL_SECRET))) {
+    return c.text("Invalid signature", 401);
+  }
+
+  const byUser = new Map<string, LineInboxEvent[]>();
+  for (const event of parseWebhookEvents(body)) {
+    byUser.set(event.lineUserId, [...(byUser.get(event.lineUserId) ?? []), event]);
+  }
+
+  // LINE expects a quick 200; delivery continues in the background
+  c.executionCtx.waitUntil(
+    Promise.all(
+      [...byUser].map(async ([lineUserId, events]) => {
+        try {
+          await getUserObject(c.env, lineUserId).handleLineEvents(events);
+          if (c.env.REVOKE_GRANTS_ON_UNFOLLOW === "true" && events.some((event) => event.type === "unfollow")) {
+            await revokeUserGrants(c.env.OAUTH_PROVIDER, lineUserId);
+            // Otherwise a later follow would skip the approval dialog on the old consent
+            await createConsentStore(c.env).revokeAll(lineUserId);
+          }
+        } catch (error: unknown) {
+          c.var.log.error("Webhook delivery failed", { error });
+        }
+      }),
+    ),
+  );
+
+  return c.text("OK");
+});
+
+app.route("/", HealthHandler);
+app.route("/admin", AdminHandler);
+app.route("/__mock-line", MockLineHandler);
+
 export { app as LineHandler };
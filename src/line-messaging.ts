@@ -0,0 +1,85 @@
+/**
+ * Minimal LINE Messaging API client (push messages).
+ *
+ * Uses the channel access token of a Messaging API channel linked to the same
+ * LINE provider as the Login channel, so user IDs match `Props.lineUserId`.
+ * LINE_MESSAGING_API_BASE_URL points the client at a local stub during tests.
+ */
+
+import { logger } from "./logger";
+
+export const DEFAULT_LINE_MESSAGING_API_BASE_URL = "https://api.line.me";
+
+export type QuickReplyItem = {
+  type: "action";
+  action: { type: "message"; label: string; text: string };
+};
+
+export type LineMessage =
+  | { type: "text"; text: string; quickReply?: { items: QuickReplyItem[] } }
+  | { type: "flex"; altText: string; contents: Record<string, unknown>; quickReply?: { items: QuickReplyItem[] } };
+
+export type LineMessagingClient = {
+  /** Pushes up to 5 messages; returns LINE's request ID or the error reported by the API. */
+  push(
+    to: string,
+    messages: LineMessage[],
+  ): Promise<[{ requestId: string | null }, null] | [null, { status: number; message: string }]>;
+};
+
+export function createLineMessagingClient(options: {
+  channelAccessToken: string;
+  baseUrl?: string;
+}): LineMessagingClient {
+  const baseUrl = (options.baseUrl || DEFAULT_LINE_MESSAGING_API_BASE_URL).replace(/\/$/, "");
+
+  return {
+    async push(to, messages) {
+      const resp = await fetch(`${baseUrl}/v2/bot/message/push`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${options.channelAccessToken}`,
+          // Lets LINE drop duplicates if this request is retried
+          "X-Line-Retry-Key": crypto.randomUUID(),
+        },
+        body: JSON.stringify({ to, messages }),
+      });
+
+      const requestId = resp.headers.get("x-line-request-id");
+      if (!resp.ok) {
+        const body = (await resp.json().catch(() => null)) as { message?: string } | null;
+        const message = body?.message ?? `HTTP ${resp.status}`;
+        logger.error("LINE push failed", { status: resp.status, lineRequestId: requestId, message });
+        return [null, { status: resp.status, message }];
+      }
+
+      logger.info("LINE push sent", { lineRequestId: requestId, messages: messages.map((message) => message.type) });
+      return [{ requestId }, null];
+    },
+  };
+}
+
+/**
+ * Returns a client for the configured channel, or null if no access token is set.
+ */
+export function getLineMessagingClient(env: Env): LineMessagingClient | null {
+  if (!env.LINE_MESSAGING_CHANNEL_ACCESS_TOKEN) return null;
+  return createLineMessagingClient({
+    channelAccessToken: env.LINE_MESSAGING_CHANNEL_ACCESS_TOKEN,
+    baseUrl: env.LINE_MESSAGING_API_BASE_URL,
+  });
+}
+
+/**
+ * Quick reply buttons that send their label back as a message.
+ */
+export function quickReply(labels: string[]): { items: QuickReplyItem[] } {
+  return {
+    items: labels.map((label) => ({
+      type: "action",
+      // Labels are limited to 20 characters; the full text is still sent
+      action: { type: "message", label: label.slice(0, 20), text: label },
+    })),
+  };
+}
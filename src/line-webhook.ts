@@ -0,0 +1,145 @@
+/**
+ * LINE Messaging API webhook: signature verification and event parsing.
+ *
+ * Only follow, unfollow, message and postback events from users are kept; they
+ * are reduced to LineInboxEvent before being handed to the user's MyMCP object.
+ */
+
+// Events kept in the user's inbox and sent to connected MCP sessions
+export type LineInboxEvent = {
+  id: string; // webhookEventId, used to drop redeliveries
+  type: "follow" | "unfollow" | "message" | "postback";
+  lineUserId: string;
+  timestamp: number; // Unix ms
+  /** Text of a text message; other message types only carry messageType */
+  text?: string;
+  messageType?: string;
+  postbackData?: string;
+};
+
+// Subset of the webhook event object we read
+type WebhookEvent = {
+  type: string;
+  webhookEventId: string;
+  timestamp: number;
+  source?: { type: string; userId?: string };
+  message?: { type: string; text?: string };
+  postback?: { data: string };
+};
+
+/**
+ * Checks X-Line-Signature (base64 HMAC-SHA256 of the raw body with the channel secret).
+ */
+export async function verifyLineSignature(
+  body: string,
+  signature: string | null | undefined,
+  channelSecret: string,
+): Promise<boolean> {
+  if (!signature) return false;
+
+  let signatureBytes: Uint8Array;
+  try {
+    signatureBytes = Uint8Array.from(atob(signature), (c) => c.charCodeAt(0));
+  } catch {
+    return false;
+  }
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(channelSecret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["verify"],
+  );
+  return crypto.subtle.verify("HMAC", key, signatureBytes, new TextEncoder().encode(body));
+}
+
+/**
+ * Parses a webhook body into inbox events, skipping group/room events and other event types.
+ */
+export function parseWebhookEvents(body: string): LineInboxEvent[] {
+  let payload: { events?: WebhookEvent[] };
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return [];
+  }
+
+  const events: LineInboxEvent[] = [];
+  for (const event of payload.events ?? []) {
+    const lineUserId = event.source?.type === "user" ? event.source.userId : undefined;
+    if (!lineUserId) continue;
+
+    const base = { id: event.webhookEventId, lineUserId, timestamp: event.timestamp };
+    switch (event.type) {
+      case "follow":
+      case "unfollow":
+        events.push({ ...base, type: event.type });
+        break;
+      case "message":
+        events.push({
+          ...base,
+          type: "message",
+          messageType: event.message?.type,
+          text: event.message?.type === "text" ? event.message.text : undefined,
+        });
+        break;
+      case "postback":
+        events.push({ ...base, type: "postback", postbackData: event.postback?.data });
+        break;
+    }
+  }
+  return events;
+}
+
+/**
+ * One-line summary used in MCP notifications.
+ */
+export function describeLineEvent(event: LineInboxEvent): string {
+  switch (event.type) {
+    case "follow":
+      return "User added the LINE account as a friend";
+    case "unfollow":
+      return "User blocked the LINE account";
+    case "message":
+      return event.text !== undefined
+        ? `User replied on LINE: ${event.text}`
+        : `User sent a ${event.messageType ?? "message"} on LINE`;
+    case "postback":
+      return `User tapped a LINE button: ${event.postbackData ?? ""}`;
+  }
+}
+
+// ── Inbox (stored in the user object) ──
+
+const INBOX_SIZE = 50;
+
+/**
+ * Appends events to the inbox, keeping the newest INBOX_SIZE. Returns the events that
+ * were stored: not already there (LINE redelivers on timeouts) and new enough to be kept.
+ */
+export async function appendLineInbox(
+  storage: DurableObjectStorage,
+  events: LineInboxEvent[],
+): Promise<LineInboxEvent[]> {
+  const inbox = (await storage.get<LineInboxEvent[]>("line_inbox")) ?? [];
+  const known = new Set(inbox.map((event) => event.id));
+  const added = events.filter((event) => !known.has(event.id));
+  if (added.length === 0) return [];
+
+  const updated = [...inbox, ...added].sort((a, b) => a.timestamp - b.timestamp).slice(-INBOX_SIZE);
+  await storage.put("line_inbox", updated);
+  const kept = new Set(updated.map((event) => event.id));
+  return added.filter((event) => kept.has(event.id));
+}
+
+/**
+ * Returns inbox events newest first, optionally only those after `since` (Unix ms).
+ */
+export async function readLineInbox(
+  storage: DurableObjectStorage,
+  since?: number,
+): Promise<LineInboxEvent[]> {
+  const inbox = (await storage.get<LineInboxEvent[]>("line_inbox")) ?? [];
+  return inbox.filter((event) => since === undefined || event.timestamp > since).reverse();
+}
@@ -0,0 +1,90 @@
+/**
+ * Structured JSON logs.
+ *
+ * Each entry is one JSON line: { level, msg, time, ...fields }. Routes log through a
+ * request logger carrying `requestId`; the ID started by GET /authorize travels in the
+ * OAuth state to /callback, /consent and /onboarding, then in Props (`requestId`) into
+ * the MCP session, so a whole login and the tool calls of its token share it.
+ *
+ * Fields named like secrets (token, secret, password, cookie, ...) and values that look
+ * like bearer tokens or JWTs are replaced with "[REDACTED]".
+ */
+
+export type LogLevel = "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /** A logger that adds `fields` to every entry (later fields win). */
+  child(fields: LogFields): Logger;
+}
+
+const SECRET_KEY_PATTERN =
+  /token|secret|password|passwd|api[-_]?key|authorization|cookie|code[-_]?verifier|^code$|^nonce$|^state$/i;
+const SECRET_VALUE_PATTERN = /^Bearer\s|^ey[\w-]+\.[\w-]+\.[\w-]*$/;
+const MAX_DEPTH = 5;
+
+// Request IDs accepted from X-Request-Id; anything else is replaced
+const REQUEST_ID_PATTERN = /^[\w.:-]{8,128}$/;
+
+export function createLogger(fields: LogFields = {}): Logger {
+  const write = (level: LogLevel, msg: string, extra?: LogFields) => {
+    const entry = redact({ level, msg, time: new Date().toISOString(), ...fields, ...extra });
+    // The console method sets the level in Workers Logs
+    console[level === "info" ? "log" : level](JSON.stringify(entry));
+  };
+
+  return {
+    info: (msg, extra) => write("info", msg, extra),
+    warn: (msg, extra) => write("warn", msg, extra),
+    error: (msg, extra) => write("error", msg, extra),
+    child: (extra) => createLogger({ ...fields, ...extra }),
+  };
+}
+
+// For code that runs outside a request (alarms, module setup) or is not handed a request logger
+export const logger = createLogger();
+
+/**
+ * The caller's X-Request-Id when it looks like an ID, otherwise a new one.
+ */
+export function getRequestId(request: Request): string {
+  return parseRequestId(request.headers.get("X-Request-Id")) ?? crypto.randomUUID();
+}
+
+/**
+ * `value` if it can be used as a request ID (e.g. one read back from a form), otherwise null.
+ */
+export function parseRequestId(value: unknown): string | null {
+  return typeof value === "string" && REQUEST_ID_PATTERN.test(value) ? value : null;
+}
+
+/**
+ * Copy of `value` with secrets replaced and errors turned into plain objects.
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (value instanceof Error) {
+    return redact({ name: value.name, message: value.message, stack: value.stack }, depth);
+  }
+  if (typeof value === "string") {
+    return SECRET_VALUE_PATTERN.test(value) ? "[REDACTED]" : value;
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return "[Truncated]";
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_KEY_PATTERN.test(key) && item != null ? "[REDACTED]" : redact(item, depth + 1),
+    ]),
+  );
+}
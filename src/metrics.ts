@@ -0,0 +1,80 @@
+/**
+ * Counters and latencies for OAuth steps and tool calls.
+ *
+ * With the METRICS Analytics Engine binding each event is written as a data point
+ * (query with the SQL API, see README); without it events are dropped, e.g. in local runs.
+ *
+ * Data point layout:
+ *   index1  "{kind}:{name}"        e.g. "tool:hello", "oauth:callback"
+ *   blob1   kind                   "tool" | "oauth"
+ *   blob2   name                   tool name or OAuth step
+ *   blob3   outcome                "success" | "error"
+ *   blob4   clientId               MCP client, "" when unknown
+ *   double1 duration in ms
+ */
+
+import { logger, type Logger } from "./logger";
+import type { ToolMiddleware } from "./tools/registry";
+
+export type MetricKind = "tool" | "oauth";
+
+export type MetricEvent = {
+  kind: MetricKind;
+  name: string;
+  outcome: "success" | "error";
+  durationMs: number;
+  clientId?: string | null;
+};
+
+export interface MetricsSink {
+  record(event: MetricEvent): void;
+}
+
+export const noopMetricsSink: MetricsSink = {
+  record() {},
+};
+
+export function createMetricsSink(env: Env): MetricsSink {
+  const dataset = env.METRICS;
+  if (!dataset) return noopMetricsSink;
+
+  return {
+    record(event) {
+      try {
+        dataset.writeDataPoint({
+          indexes: [`${event.kind}:${event.name}`],
+          blobs: [event.kind, event.name, event.outcome, event.clientId ?? ""],
+          doubles: [event.durationMs],
+        });
+      } catch (error: unknown) {
+        // Metrics must never fail the request
+        logger.error("Metrics write failed", { error });
+      }
+    },
+  };
+}
+
+/**
+ * Tool middleware that logs every call and records its count and latency.
+ */
+export function toolMetricsMiddleware(log: () => Logger, sink: MetricsSink): ToolMiddleware {
+  return async (call, next) => {
+    const start = Date.now();
+    let outcome: MetricEvent["outcome"] = "error";
+    try {
+      const result = await next();
+      outcome = result.isError ? "error" : "success";
+      return result;
+    } finally {
+      const durationMs = Date.now() - start;
+      const clientId = call.props.clientId ?? null;
+      sink.record({ kind: "tool", name: call.tool.name, outcome, durationMs, clientId });
+      log()[outcome === "success" ? "info" : "warn"]("tool call", {
+        tool: call.tool.name,
+        outcome,
+        durationMs,
+        clientId,
+      });
+    }
+  };
+}
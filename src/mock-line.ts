@@ -0,0 +1,314 @@
+/**
+ * Mock LINE Login provider (Hono router) for offline development and automated tests.
+ * Mounted under /__mock-line by the LINE handler, only when MOCK_LINE=true.
+ *
+ * Routes mirror LINE's paths, so pointing LINE_AUTH_BASE_URL and LINE_API_BASE_URL at
+ * `http://localhost:8788/__mock-line` runs the whole OAuth flow without a LINE channel:
+ *   GET  /oauth2/v2.1/authorize — User picker (skipped when MOCK_LINE_AUTO_LOGIN is set)
+ *   POST /oauth2/v2.1/authorize — Issue a code for the picked user and redirect back
+ *   POST /oauth2/v2.1/token     — Exchange the code (client secret and PKCE are checked) or a refresh token
+ *   POST /oauth2/v2.1/verify    — Verify an ID token and return its claims
+ *   GET  /oauth2/v2.1/certs     — Empty JWKS (mock ID tokens are HS256)
+ *   GET  /v2/profile            — Profile for a mock access token
+ *
+ * ID tokens are HS256-signed with LINE_CHANNEL_SECRET and carry LINE's issuer, so
+ * verifyLineIdToken accepts them unchanged. Users come from MOCK_LINE_USERS (JSON array).
+ * Never enable this in production: anyone could sign in as any LINE user.
+ */
+
+import { Hono } from "hono";
+import { base64UrlEncode, decodeJwt, signHs256Jwt, verifyHs256 } from "./jwt";
+import { logger } from "./logger";
+
+type MockLineUser = {
+  userId: string;
+  displayName: string;
+  pictureUrl?: string;
+  email?: string;
+};
+
+// Stored in OAUTH_KV under mock_line_code:{code}
+type MockAuthorization = {
+  user: MockLineUser;
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+};
+
+const DEFAULT_MOCK_USERS: MockLineUser[] = [
+  { userId: "U00000000000000000000000000000001", displayName: "テストユーザー1" },
+  { userId: "U00000000000000000000000000000002", displayName: "テストユーザー2" },
+];
+
+const CODE_TTL_SECONDS = 300;
+const TOKEN_TTL_SECONDS = 3600;
+const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 3600;
+
+const app = new Hono<{ Bindings: Env }>();
+
+app.use("*", async (c, next) => {
+  if (c.env.MOCK_LINE !== "true") {
+    return c.notFound();
+  }
+  await next();
+});
+
+// ── GET /oauth2/v2.1/authorize — User picker ──
+
+app.get("/oauth2/v2.1/authorize", async (c) => {
+  const params = c.req.query();
+  if (params.response_type !== "code" || params.client_id !== c.env.LINE_CHANNEL_ID || !params.redirect_uri) {
+    return c.text("Invalid authorization request", 400);
+  }
+
+  const users = getMockUsers(c.env);
+  if (c.env.MOCK_LINE_AUTO_LOGIN) {
+    const user = users.find((u) => u.userId === c.env.MOCK_LINE_AUTO_LOGIN) ?? {
+      userId: c.env.MOCK_LINE_AUTO_LOGIN,
+      displayName: "Mock User",
+    };
+    return c.redirect(await issueCode(c.env, params, user));
+  }
+
+  return c.html(renderUserPicker(params, users));
+});
+
+// ── POST /oauth2/v2.1/authorize — Issue a code for the picked user ──
+
+app.post("/oauth2/v2.1/authorize", async (c) => {
+  const form = await c.req.parseBody();
+  const params = Object.fromEntries(
+    Object.entries(form).filter((entry): entry is [string, string] => typeof entry[1] === "string"),
+  );
+  if (params.client_id !== c.env.LINE_CHANNEL_ID || !params.redirect_uri) {
+    return c.text("Invalid authorization request", 400);
+  }
+
+  const redirect = new URL(params.redirect_uri);
+  if (params.action === "cancel") {
+    redirect.searchParams.set("error", "access_denied");
+    redirect.searchParams.set("error_description", "The user has denied the request");
+    if (params.state) redirect.searchParams.set("state", params.state);
+    return c.redirect(redirect.href);
+  }
+
+  const userId = params.custom_user_id || params.user_id;
+  if (!userId) {
+    return c.text("Pick a user", 400);
+  }
+  const user = getMockUsers(c.env).find((u) => u.userId === userId) ?? {
+    userId,
+    displayName: params.custom_display_name || "Mock User",
+  };
+
+  return c.redirect(await issueCode(c.env, params, user));
+});
+
+// ── POST /oauth2/v2.1/token — Authorization code → access token + ID token, or refresh ──
+
+app.post("/oauth2/v2.1/token", async (c) => {
+  const form = await c.req.parseBody();
+  const field = (name: string) => (typeof form[name] === "string" ? (form[name] as string) : "");
+
+  const grantType = field("grant_type");
+  if (grantType !== "authorization_code" && grantType !== "refresh_token") {
+    return c.json({ error: "unsupported_grant_type" }, 400);
+  }
+  if (field("client_id") !== c.env.LINE_CHANNEL_ID || field("client_secret") !== c.env.LINE_CHANNEL_SECRET) {
+    return c.json({ error: "invalid_client" }, 401);
+  }
+
+  if (grantType === "refresh_token") {
+    const user = await c.env.OAUTH_KV.get(`mock_line_refresh:${field("refresh_token")}`);
+    if (!user) {
+      return c.json({ error: "invalid_grant", error_description: "invalid refresh token" }, 400);
+    }
+    return c.json({
+      access_token: await issueAccessToken(c.env, JSON.parse(user) as MockLineUser),
+      token_type: "Bearer",
+      expires_in: TOKEN_TTL_SECONDS,
+      refresh_token: field("refresh_token"),
+      scope: "profile openid",
+    });
+  }
+
+  const stored = await c.env.OAUTH_KV.get(`mock_line_code:${field("code")}`);
+  if (!stored) {
+    return c.json({ error: "invalid_grant", error_description: "invalid authorization code" }, 400);
+  }
+  await c.env.OAUTH_KV.delete(`mock_line_code:${field("code")}`);
+
+  const authorization = JSON.parse(stored) as MockAuthorization;
+  if (authorization.redirectUri !== field("redirect_uri")) {
+    return c.json({ error: "invalid_grant", error_description: "redirect_uri does not match" }, 400);
+  }
+  if (authorization.codeChallenge && (await s256(field("code_verifier"))) !== authorization.codeChallenge) {
+    return c.json({ error: "invalid_grant", error_description: "invalid code_verifier" }, 400);
+  }
+
+  const accessToken = await issueAccessToken(c.env, authorization.user);
+  const refreshToken = crypto.randomUUID();
+  await c.env.OAUTH_KV.put(`mock_line_refresh:${refreshToken}`, JSON.stringify(authorization.user), {
+    expirationTtl: REFRESH_TOKEN_TTL_SECONDS,
+  });
+
+  const now = Math.floor(Date.now() / 1000);
+  const idToken = await signHs256Jwt(
+    {
+      iss: "https://access.line.me",
+      sub: authorization.user.userId,
+      aud: c.env.LINE_CHANNEL_ID,
+      exp: now + TOKEN_TTL_SECONDS,
+      iat: now,
+      nonce: authorization.nonce,
+      name: authorization.user.displayName,
+      picture: authorization.user.pictureUrl,
+      email: authorization.user.email,
+    },
+    c.env.LINE_CHANNEL_SECRET,
+  );
+
+  return c.json({
+    access_token: accessToken,
+    token_type: "Bearer",
+    expires_in: TOKEN_TTL_SECONDS,
+    refresh_token: refreshToken,
+    scope: "profile openid",
+    id_token: idToken,
+  });
+});
+
+// ── POST /oauth2/v2.1/verify — ID token → claims ──
+
+app.post("/oauth2/v2.1/verify", async (c) => {
+  const form = await c.req.parseBody();
+  const decoded = typeof form.id_token === "string" ? decodeJwt(form.id_token) : null;
+  if (
+    !decoded ||
+    !(await verifyHs256(decoded.signingInput, decoded.signature, c.env.LINE_CHANNEL_SECRET)) ||
+    decoded.payload.aud !== form.client_id ||
+    (typeof form.nonce === "string" && decoded.payload.nonce !== form.nonce)
+  ) {
+    return c.json({ error: "invalid_request", error_description: "Invalid IdToken." }, 400);
+  }
+  return c.json(decoded.payload);
+});
+
+app.get("/oauth2/v2.1/certs", (c) => c.json({ keys: [] }));
+
+// ── GET /v2/profile ──
+
+app.get("/v2/profile", async (c) => {
+  const auth = c.req.header("Authorization") ?? "";
+  const stored = auth.startsWith("Bearer ") ? await c.env.OAUTH_KV.get(`mock_line_token:${auth.slice(7)}`) : null;
+  if (!stored) {
+    return c.json({ message: "invalid token" }, 401);
+  }
+
+  const user = JSON.parse(stored) as MockLineUser;
+  return c.json({ userId: user.userId, displayName: user.displayName, pictureUrl: user.pictureUrl });
+});
+
+// ── Helpers ──
+
+function getMockUsers(env: Env): MockLineUser[] {
+  if (!env.MOCK_LINE_USERS) return DEFAULT_MOCK_USERS;
+  try {
+    return JSON.parse(env.MOCK_LINE_USERS) as MockLineUser[];
+  } catch {
+    logger.error("MOCK_LINE_USERS is not valid JSON; using defaults");
+    return DEFAULT_MOCK_USERS;
+  }
+}
+
+async function issueCode(env: Env, params: Record<string, string>, user: MockLineUser): Promise<string> {
+  const code = crypto.randomUUID();
+  const authorization: MockAuthorization = {
+    user,
+    clientId: params.client_id,
+    redirectUri: params.redirect_uri,
+    nonce: params.nonce,
+    codeChallenge: params.code_challenge,
+  };
+  await env.OAUTH_KV.put(`mock_line_code:${code}`, JSON.stringify(authorization), {
+    expirationTtl: CODE_TTL_SECONDS,
+  });
+
+  const redirect = new URL(params.redirect_uri);
+  redirect.searchParams.set("code", code);
+  if (params.state) redirect.searchParams.set("state", params.state);
+  return redirect.href;
+}
+
+async function issueAccessToken(env: Env, user: MockLineUser): Promise<string> {
+  const accessToken = crypto.randomUUID();
+  await env.OAUTH_KV.put(`mock_line_token:${accessToken}`, JSON.stringify(user), {
+    expirationTtl: TOKEN_TTL_SECONDS,
+  });
+  return accessToken;
+}
+
+async function s256(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+function renderUserPicker(params: Record<string, string>, users: MockLineUser[]): string {
+  const hidden = ["client_id", "redirect_uri", "state", "nonce", "code_challenge"]
+    .filter((name) => params[name])
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(params[name])}">`)
+    .join("\n      ");
+
+  const options = users
+    .map((user, i) =>
+      `<label><input type="radio" name="user_id" value="${escapeHtml(user.userId)}"${i === 0 ? " checked" : ""}> ${escapeHtml(user.displayName)} <code>${escapeHtml(user.userId)}</code></label>`)
+    .join("\n      ");
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Mock LINE Login</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, sans-serif; display: flex; justify-content: center; align-items: center; min-height: 100vh; margin: 0; background: #f5f5f5; }
+    .card { background: white; border-radius: 12px; padding: 2rem; max-width: 440px; width: 90%; box-shadow: 0 2px 10px rgba(0,0,0,0.1); }
+    h1 { font-size: 1.25rem; margin: 0 0 0.5rem; }
+    p { color: #666; font-size: 0.9rem; }
+    label { display: block; padding: 0.25rem 0; font-size: 0.9rem; }
+    code { color: #888; font-size: 0.75rem; }
+    input[type=text] { width: 100%; box-sizing: border-box; padding: 6px; margin-top: 0.25rem; }
+    button { background: #06C755; color: white; border: none; padding: 12px 32px; border-radius: 8px; font-size: 1rem; cursor: pointer; margin-top: 1rem; width: 100%; }
+    button.deny { background: white; color: #666; border: 1px solid #ccc; margin-top: 0.5rem; }
+  </style>
+</head>
+<body>
+  <div class="card">
+    <h1>Mock LINE Login</h1>
+    <p>開発用のモックです。ログインするユーザーを選んでください。</p>
+    <form method="POST">
+      ${hidden}
+      ${options}
+      <label>または任意の LINE ユーザー ID:
+        <input type="text" name="custom_user_id" placeholder="Uxxxxxxxx...">
+        <input type="text" name="custom_display_name" placeholder="表示名">
+      </label>
+      <button type="submit">ログイン</button>
+      <button type="submit" name="action" value="cancel" class="deny">キャンセル</button>
+    </form>
+  </div>
+</body>
+</html>`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#x27;");
+}
+
+export { app as MockLineHandler };
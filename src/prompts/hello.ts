@@ -0,0 +1,26 @@
+/**
+ * Example prompt — Replace this with your own prompts.
+ *
+ * Demonstrates zod-validated arguments and loading the caller's data into the body.
+ */
+
+import { z } from "zod";
+import { definePrompt } from "./registry";
+
+export default definePrompt({
+  name: "hello",
+  description: "Starts a conversation that knows who the user is. Replace this with your own prompts.",
+  argsSchema: {
+    topic: z.string().optional().describe("What you want to talk about"),
+  },
+  scopes: [],
+  async render({ topic }, { userId, props }) {
+    // Example: load the user's data here
+    // const { data } = await client.from("your_table").select("*").eq("user_id", userId);
+
+    return [
+      `I am ${props.displayName} (Supabase user ${userId}).`,
+      topic ? `Let's talk about: ${topic}` : "Ask me what I would like to do today.",
+    ].join("\n");
+  },
+});
@@ -0,0 +1,13 @@
+/**
+ * Prompt registry — every built-in prompt module under src/prompts/ is listed here.
+ *
+ * Both MyMCP (index.ts) and MyMCPDev (index.dev.ts) register this list, together
+ * with the caller's saved templates (see tools/prompt-templates.ts).
+ */
+
+import hello from "./hello";
+import type { AnyPromptDefinition } from "./registry";
+
+export const prompts: readonly AnyPromptDefinition[] = [
+  hello,
+];
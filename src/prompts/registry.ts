@@ -0,0 +1,205 @@
+/**
+ * MCP prompts: built-in prompt modules plus per-user templates stored in Supabase.
+ *
+ * Built-in prompts default-export `definePrompt({...})` and are listed in
+ * `src/prompts/index.ts`. Their arguments are validated with zod and `render`
+ * can load the caller's data through the authenticated client.
+ *
+ * User templates live in PROMPT_TEMPLATE_TABLE (default "mcp_prompt_templates")
+ * and are queried on every prompts/list, so newly saved ones show up immediately.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+  type GetPromptResult,
+  type Prompt,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z, type ZodRawShape } from "zod";
+import { logger } from "../logger";
+import { assertScopes, missingScopes } from "../scopes";
+import type { ToolContext, ToolContextProvider } from "../tools/registry";
+
+export const DEFAULT_PROMPT_TEMPLATE_TABLE = "mcp_prompt_templates";
+
+export type PromptDefinition<Args extends ZodRawShape = ZodRawShape> = {
+  name: string;
+  description: string;
+  /** Prompt arguments are always strings on the wire; use z.string() (optionally refined). */
+  argsSchema: Args;
+  scopes: string[];
+  /** Returns the prompt text (sent as a single user message) or full messages. */
+  render: (
+    args: z.objectOutputType<Args, z.ZodTypeAny>,
+    ctx: ToolContext,
+  ) => Promise<string | GetPromptResult["messages"]>;
+};
+
+/**
+ * A prompt of any argument schema, for lists of prompts. `render` is a method so its arguments
+ * are checked bivariantly and every PromptDefinition<Args> fits; prompts/get only passes it
+ * arguments parsed with the prompt's own `argsSchema`.
+ */
+export type AnyPromptDefinition = Omit<PromptDefinition, "render"> & {
+  render(
+    args: z.objectOutputType<ZodRawShape, z.ZodTypeAny>,
+    ctx: ToolContext,
+  ): Promise<string | GetPromptResult["messages"]>;
+};
+
+// Row shape of the user prompt template table.
+export type UserPromptTemplate = {
+  name: string;
+  description: string | null;
+  /** Text with {{argument}} placeholders */
+  template: string;
+  arguments: { name: string; description?: string; required?: boolean }[] | null;
+};
+
+export function definePrompt<Args extends ZodRawShape>(definition: PromptDefinition<Args>): PromptDefinition<Args> {
+  return definition;
+}
+
+/**
+ * Installs prompts/list and prompts/get handlers serving built-in prompts and the
+ * caller's saved templates. Built-in names take precedence over user templates.
+ */
+export function registerPrompts(
+  server: McpServer,
+  prompts: readonly AnyPromptDefinition[],
+  provider: ToolContextProvider,
+) {
+  const builtIn = new Map(prompts.map((prompt) => [prompt.name, prompt]));
+  const table = provider.env.PROMPT_TEMPLATE_TABLE || DEFAULT_PROMPT_TEMPLATE_TABLE;
+
+  const getContext = async (): Promise<ToolContext> => {
+    const client = await provider.getClient();
+    if (!client) {
+      throw new McpError(ErrorCode.InternalError, "Auth error: Failed to sign in to Supabase");
+    }
+    return { client, userId: provider.getUserId(), props: provider.getProps(), env: provider.env, server };
+  };
+
+  server.server.registerCapabilities({ prompts: { listChanged: true } });
+
+  server.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    const granted = provider.getProps().scopes;
+    const listed: Prompt[] = prompts
+      .filter((prompt) => missingScopes(granted, prompt.scopes).length === 0)
+      .map((prompt) => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: Object.entries(prompt.argsSchema as ZodRawShape).map(([name, schema]) => ({
+          name,
+          description: schema.description,
+          required: !schema.isOptional(),
+        })),
+      }));
+
+    const ctx = await getContext();
+    for (const template of await loadUserTemplates(ctx.client, table, ctx.userId)) {
+      if (builtIn.has(template.name)) continue;
+      listed.push({
+        name: template.name,
+        description: template.description ?? undefined,
+        arguments: template.arguments ?? [],
+      });
+    }
+
+    return { prompts: listed };
+  });
+
+  server.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: rawArgs = {} } = request.params;
+    const ctx = await getContext();
+
+    const prompt = builtIn.get(name);
+    if (prompt) {
+      assertScopes(ctx.props.scopes, prompt.scopes, `prompt "${name}"`);
+
+      const parsed = z.object(prompt.argsSchema).safeParse(rawArgs);
+      if (!parsed.success) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid arguments for prompt ${name}: ${parsed.error.message}`,
+        );
+      }
+      return toPromptResult(prompt.description, await prompt.render(parsed.data, ctx));
+    }
+
+    const template = await loadUserTemplate(ctx.client, table, ctx.userId, name);
+    if (!template) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt ${name} not found`);
+    }
+
+    const missing = (template.arguments ?? []).filter((arg) => arg.required && !rawArgs[arg.name]);
+    if (missing.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing arguments for prompt ${name}: ${missing.map((arg) => arg.name).join(", ")}`,
+      );
+    }
+
+    return toPromptResult(template.description ?? undefined, fillTemplate(template.template, rawArgs));
+  });
+}
+
+/**
+ * Replaces {{name}} placeholders; unknown placeholders become empty strings.
+ */
+export function fillTemplate(template: string, args: Record<string, string>): string {
+  return template.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (_, key: string) => args[key] ?? "");
+}
+
+// ── Helpers ──
+
+async function loadUserTemplates(
+  client: SupabaseClient,
+  table: string,
+  userId: string,
+): Promise<UserPromptTemplate[]> {
+  const { data, error } = await client
+    .from(table)
+    .select("name, description, template, arguments")
+    .eq("user_id", userId)
+    .order("name");
+  if (error) {
+    logger.error("Prompt template list failed", { error: error.message });
+    return [];
+  }
+  return data as UserPromptTemplate[];
+}
+
+async function loadUserTemplate(
+  client: SupabaseClient,
+  table: string,
+  userId: string,
+  name: string,
+): Promise<UserPromptTemplate | null> {
+  const { data, error } = await client
+    .from(table)
+    .select("name, description, template, arguments")
+    .eq("user_id", userId)
+    .eq("name", name)
+    .maybeSingle();
+  if (error) {
+    logger.error("Prompt template read failed", { error: error.message });
+    return null;
+  }
+  return data as UserPromptTemplate | null;
+}
+
+function toPromptResult(
+  description: string | undefined,
+  body: string | GetPromptResult["messages"],
+): GetPromptResult {
+  return {
+    description,
+    messages:
+      typeof body === "string" ? [{ role: "user", content: { type: "text", text: body } }] : body,
+  };
+}
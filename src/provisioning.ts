@@ -0,0 +1,143 @@
+/**
+ * Pluggable hooks that create a Supabase account for a first-time LINE user,
+ * used by the onboarding page when the auth strategy finds no account.
+ *
+ * Select one with PROVISIONING:
+ *   - unset / "none"  Onboarding disabled; unknown users get access_denied
+ *   - "service_role"  Create the auth user with SUPABASE_SERVICE_ROLE_KEY and link it in LINE_USER_TABLE
+ *   - "edge_function" POST the LINE profile to the Supabase Edge Function named PROVISIONING_FUNCTION
+ *
+ * The created account must be one the AUTH_STRATEGY can sign in to afterwards.
+ */
+
+import { createClient } from "@supabase/supabase-js";
+import { DEFAULT_LINE_USER_TABLE, getPasswordCredentials } from "./auth-strategy";
+import { logger } from "./logger";
+
+export type ProvisioningName = "none" | "service_role" | "edge_function";
+
+// What we know about the LINE user when onboarding starts
+export type LineProfile = {
+  lineUserId: string;
+  displayName: string;
+  pictureUrl?: string;
+  email?: string;
+};
+
+export interface ProvisioningHook {
+  readonly name: Exclude<ProvisioningName, "none">;
+  /** Creates the account; returns false if it could not be created. */
+  provision(profile: LineProfile): Promise<boolean>;
+}
+
+/**
+ * Creates the hook selected by PROVISIONING, or null if onboarding is disabled.
+ * Throws if the secrets required by that hook are missing.
+ */
+export function createProvisioningHook(env: Env): ProvisioningHook | null {
+  const name: ProvisioningName = env.PROVISIONING || "none";
+
+  switch (name) {
+    case "none":
+      return null;
+    case "service_role":
+      return createServiceRoleProvisioning(
+        env,
+        requireSecret(env.SUPABASE_SERVICE_ROLE_KEY, "SUPABASE_SERVICE_ROLE_KEY", name),
+      );
+    case "edge_function":
+      return createEdgeFunctionProvisioning(
+        env,
+        requireSecret(env.SUPABASE_SERVICE_ROLE_KEY, "SUPABASE_SERVICE_ROLE_KEY", name),
+        requireSecret(env.PROVISIONING_FUNCTION, "PROVISIONING_FUNCTION", name),
+      );
+    default:
+      throw new Error(`Unknown PROVISIONING: ${name}`);
+  }
+}
+
+// ── Service-role provisioning ──
+
+/**
+ * Creates a confirmed auth user with the email {lineUserId}@line.com (plus the derived
+ * password for AUTH_STRATEGY=password) and, for the other strategies, a LINE_USER_TABLE
+ * row linking it to the LINE user ID. The auth user is deleted again if linking fails.
+ */
+export function createServiceRoleProvisioning(env: Env, serviceRoleKey: string): ProvisioningHook {
+  const strategy = env.AUTH_STRATEGY || "password";
+  const passwordPrefix =
+    strategy === "password" ? requireSecret(env.COMMON_PASSWORD_PREFIX, "COMMON_PASSWORD_PREFIX", "service_role") : "";
+
+  return {
+    name: "service_role",
+    async provision(profile) {
+      const admin = createClient(env.SUPABASE_URL, serviceRoleKey, {
+        auth: { persistSession: false, autoRefreshToken: false },
+      });
+
+      const credentials = getPasswordCredentials(profile.lineUserId, passwordPrefix);
+
+      const { data, error } = await admin.auth.admin.createUser({
+        email: credentials.email,
+        password: strategy === "password" ? credentials.password : undefined,
+        email_confirm: true,
+        user_metadata: { display_name: profile.displayName, picture_url: profile.pictureUrl },
+        app_metadata: { provider: "line", line_user_id: profile.lineUserId },
+      });
+      if (error) {
+        logger.error("Supabase createUser failed", { error: error.message });
+        return false;
+      }
+
+      if (strategy !== "password") {
+        const { error: linkError } = await admin
+          .from(env.LINE_USER_TABLE || DEFAULT_LINE_USER_TABLE)
+          .upsert({ id: data.user.id, line_user_id: profile.lineUserId });
+        if (linkError) {
+          logger.error("LINE user link failed", { error: linkError.message });
+          await admin.auth.admin.deleteUser(data.user.id);
+          return false;
+        }
+      }
+
+      return true;
+    },
+  };
+}
+
+// ── Edge Function provisioning ──
+
+/**
+ * Invokes a Supabase Edge Function with the LINE profile as JSON; any 2xx counts as success.
+ * The function is called with the service role key, so it can trust the body.
+ */
+export function createEdgeFunctionProvisioning(
+  env: Env,
+  serviceRoleKey: string,
+  functionName: string,
+): ProvisioningHook {
+  return {
+    name: "edge_function",
+    async provision(profile) {
+      const admin = createClient(env.SUPABASE_URL, serviceRoleKey, {
+        auth: { persistSession: false, autoRefreshToken: false },
+      });
+
+      const { error } = await admin.functions.invoke(functionName, { body: profile });
+      if (error) {
+        logger.error("Provisioning function failed", { error: error.message });
+        return false;
+      }
+      return true;
+    },
+  };
+}
+
+// ── Helpers ──
+
+function requireSecret(value: string | undefined, key: string, hook: ProvisioningName): string {
+  if (!value) {
+    throw new Error(`${key} is required for PROVISIONING=${hook}`);
+  }
+  return value;
+}
@@ -0,0 +1,225 @@
+/**
+ * Token-bucket rate limits and daily quotas for tool calls.
+ *
+ * Buckets live in the storage of the user's MyMCP object (`user:{lineUserId}`,
+ * see user-object.ts), so limits hold across all of that user's MCP sessions:
+ *   - user:            all tool calls of the user
+ *   - tool:{name}:     calls to one tool
+ *   - client:{id}:     calls through one OAuth client
+ *   - quota:{date}:    calls per UTC day, by user plan
+ *
+ * The plan is read from the `plan` column of USER_PLAN_TABLE (default "profiles",
+ * matched on `id` = Supabase user ID) and cached for an hour.
+ *
+ * Override DEFAULT_RATE_LIMITS with the RATE_LIMITS env var (JSON, merged per key).
+ * An invalid override is logged and the defaults are used instead.
+ */
+
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { logger } from "./logger";
+import type { ToolMiddleware } from "./tools/registry";
+
+export type BucketConfig = {
+  capacity: number;
+  refillPerSecond: number;
+};
+
+export type RateLimitConfig = {
+  user: BucketConfig;
+  client: BucketConfig;
+  tool: BucketConfig;
+  /** Per-tool overrides of `tool` */
+  tools: Record<string, BucketConfig>;
+  /** Calls per UTC day by plan; plans not listed use `default` */
+  dailyQuota: Record<string, number> & { default: number };
+};
+
+// Rates must be positive: a refillPerSecond of 0 would mean an infinite Retry-After
+const bucketSchema = z.object({
+  capacity: z.number().min(1),
+  refillPerSecond: z.number().positive(),
+});
+
+/** The RATE_LIMITS override (also a tenant's `rateLimits`, see tenants.ts) */
+export const rateLimitOverrideSchema = z
+  .object({
+    user: bucketSchema,
+    client: bucketSchema,
+    tool: bucketSchema,
+    tools: z.record(z.string(), bucketSchema),
+    dailyQuota: z.record(z.string(), z.number().int().nonnegative()),
+  })
+  .partial()
+  .strict();
+
+export type RateLimitOverride = z.infer<typeof rateLimitOverrideSchema>;
+
+export type RateLimitRequest = {
+  tool: string;
+  clientId: string | null;
+  plan: string;
+};
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; limit: string; retryAfterSeconds: number };
+
+type BucketState = { tokens: number; updatedAt: number };
+
+export const DEFAULT_USER_PLAN_TABLE = "profiles";
+export const DEFAULT_PLAN = "default";
+
+const PLAN_CACHE_TTL_MS = 60 * 60 * 1000;
+
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  user: { capacity: 60, refillPerSecond: 1 },
+  client: { capacity: 60, refillPerSecond: 1 },
+  tool: { capacity: 20, refillPerSecond: 0.5 },
+  tools: {
+    // Outgoing LINE pushes: a burst of 5, then one per minute
+    send_line_message: { capacity: 5, refillPerSecond: 1 / 60 },
+  },
+  dailyQuota: { default: 1000, pro: 10000 },
+};
+
+export function getRateLimitConfig(env: Env): RateLimitConfig {
+  if (!env.RATE_LIMITS) return DEFAULT_RATE_LIMITS;
+
+  const [override, problem] = parseRateLimitOverride(env.RATE_LIMITS);
+  if (!override) {
+    logger.error("Invalid RATE_LIMITS; using defaults", { error: problem });
+    return DEFAULT_RATE_LIMITS;
+  }
+
+  return {
+    ...DEFAULT_RATE_LIMITS,
+    ...override,
+    tools: { ...DEFAULT_RATE_LIMITS.tools, ...override.tools },
+    dailyQuota: { ...DEFAULT_RATE_LIMITS.dailyQuota, ...override.dailyQuota },
+  };
+}
+
+/**
+ * Parses a RATE_LIMITS value. Returns the override, or what is wrong with it.
+ */
+export function parseRateLimitOverride(raw: string): [RateLimitOverride, null] | [null, string] {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return [null, "not valid JSON"];
+  }
+
+  const result = rateLimitOverrideSchema.safeParse(json);
+  if (!result.success) {
+    const problems = result.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    return [null, problems.join("; ")];
+  }
+  return [result.data, null];
+}
+
+/**
+ * Takes one token from every applicable bucket and one unit of daily quota.
+ * Nothing is consumed unless all of them allow the call.
+ */
+export async function consumeRateLimit(
+  storage: DurableObjectStorage,
+  config: RateLimitConfig,
+  request: RateLimitRequest,
+  now = Date.now(),
+): Promise<RateLimitResult> {
+  const buckets: [string, BucketConfig][] = [
+    ["user", config.user],
+    [`tool:${request.tool}`, config.tools[request.tool] ?? config.tool],
+  ];
+  if (request.clientId) {
+    buckets.push([`client:${request.clientId}`, config.client]);
+  }
+
+  const day = new Date(now).toISOString().slice(0, 10);
+  const quotaKey = `ratelimit:quota:${day}`;
+  const quota = config.dailyQuota[request.plan] ?? config.dailyQuota.default;
+
+  const stored = await storage.get<BucketState | number>([
+    ...buckets.map(([key]) => `ratelimit:${key}`),
+    quotaKey,
+  ]);
+
+  const used = (stored.get(quotaKey) as number | undefined) ?? 0;
+  if (used >= quota) {
+    const nextDay = Date.parse(`${day}T00:00:00Z`) + 24 * 60 * 60 * 1000;
+    return { allowed: false, limit: `daily_quota:${request.plan}`, retryAfterSeconds: Math.ceil((nextDay - now) / 1000) };
+  }
+
+  const updates: Record<string, BucketState | number> = { [quotaKey]: used + 1 };
+  for (const [key, bucket] of buckets) {
+    const state = stored.get(`ratelimit:${key}`) as BucketState | undefined;
+    const elapsed = state ? (now - state.updatedAt) / 1000 : 0;
+    const tokens = state
+      ? Math.min(bucket.capacity, state.tokens + elapsed * bucket.refillPerSecond)
+      : bucket.capacity;
+
+    if (tokens < 1) {
+      return { allowed: false, limit: key, retryAfterSeconds: Math.ceil((1 - tokens) / bucket.refillPerSecond) };
+    }
+    updates[`ratelimit:${key}`] = { tokens: tokens - 1, updatedAt: now };
+  }
+
+  await storage.put(updates);
+  return { allowed: true };
+}
+
+/**
+ * Returns the user's plan, cached in `storage` for an hour.
+ * Falls back to "default" when the table or row is missing.
+ */
+export async function getUserPlan(
+  storage: DurableObjectStorage,
+  getClient: () => Promise<SupabaseClient | null>,
+  table: string,
+  userId: string,
+): Promise<string> {
+  const cached = await storage.get<{ plan: string; fetchedAt: number }>("user_plan");
+  if (cached && Date.now() - cached.fetchedAt < PLAN_CACHE_TTL_MS) return cached.plan;
+
+  const client = await getClient();
+  if (!client) return cached?.plan ?? DEFAULT_PLAN;
+
+  const { data, error } = await client.from(table).select("plan").eq("id", userId).maybeSingle();
+  if (error) {
+    logger.error("User plan lookup failed", { error: error.message });
+    return cached?.plan ?? DEFAULT_PLAN;
+  }
+
+  const plan = (data?.plan as string | null | undefined) || DEFAULT_PLAN;
+  await storage.put("user_plan", { plan, fetchedAt: Date.now() });
+  return plan;
+}
+
+/**
+ * Tool middleware that rejects calls over the limit with a retry-after hint.
+ */
+export function rateLimitMiddleware(
+  check: (request: { tool: string; clientId: string | null }) => Promise<RateLimitResult>,
+): ToolMiddleware {
+  return async ({ tool, props }, next) => {
+    const result = await check({ tool: tool.name, clientId: props.clientId ?? null });
+    return result.allowed ? next() : rateLimitedResult(result.limit, result.retryAfterSeconds);
+  };
+}
+
+export function rateLimitedResult(limit: string, retryAfterSeconds: number): CallToolResult {
+  const error = { error: "rate_limited", limit, retry_after_seconds: retryAfterSeconds };
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Rate limit exceeded (${limit}). Retry after ${retryAfterSeconds} seconds.\n${JSON.stringify(error)}`,
+      },
+    ],
+    isError: true,
+    _meta: error,
+  };
+}
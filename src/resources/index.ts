@@ -0,0 +1,12 @@
+/**
+ * Resource registry — every resource module under src/resources/ is listed here.
+ *
+ * Both MyMCP (index.ts) and MyMCPDev (index.dev.ts) register this list.
+ */
+
+import type { AnyResourceDefinition } from "./registry";
+
+export const resources: readonly AnyResourceDefinition[] = [
+  // Example: expose app://recipes/{id} (import { defineTableResource } from "./table-resource")
+  // defineTableResource({ table: "recipes", ownerColumn: "user_id", titleColumn: "title" }),
+];
@@ -0,0 +1,170 @@
+/**
+ * Declarative MCP resource templates backed by the user's Supabase data.
+ *
+ * A resource module default-exports `defineResource({...})` and is listed in
+ * `src/resources/index.ts`. Reads return both a JSON and a Markdown rendering,
+ * and `resources/list` is paginated across all templates with an opaque cursor.
+ */
+
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  McpError,
+  type ReadResourceResult,
+  type Resource,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { assertScopes, missingScopes } from "../scopes";
+import type { ToolContext, ToolContextProvider } from "../tools/registry";
+
+const PAGE_SIZE = 50;
+
+export type ResourceDefinition<Data = unknown> = {
+  name: string;
+  /** RFC 6570 template, e.g. "app://recipes/{id}" */
+  uriTemplate: string;
+  description: string;
+  scopes: string[];
+  /** Lists concrete resources for resources/list. Omit to expose the template only. */
+  list?: (
+    page: { offset: number; limit: number },
+    ctx: ToolContext,
+  ) => Promise<{ resources: Resource[]; hasMore: boolean }>;
+  /** Loads the data behind one URI. Return null if it does not exist for this user; throw on failures. */
+  read: (variables: Record<string, string>, ctx: ToolContext) => Promise<Data | null>;
+  /** Markdown rendering; defaults to a generic key/value rendering of the JSON. */
+  toMarkdown?: (data: Data) => string;
+};
+
+/**
+ * A resource of any data type, for lists of resources. `toMarkdown` is a method so its
+ * argument is checked bivariantly and every ResourceDefinition<Data> fits; it is only
+ * ever passed what the resource's own `read` returned.
+ */
+export type AnyResourceDefinition = Omit<ResourceDefinition, "toMarkdown"> & {
+  toMarkdown?(data: unknown): string;
+};
+
+// resources/list cursor: template index and row offset, base64-encoded JSON
+const cursorSchema = z.object({
+  r: z.number().int().nonnegative(),
+  o: z.number().int().nonnegative(),
+});
+
+type Cursor = z.infer<typeof cursorSchema>;
+
+export function defineResource<Data>(definition: ResourceDefinition<Data>): ResourceDefinition<Data> {
+  return definition;
+}
+
+/**
+ * Registers resource templates and replaces resources/list with a paginated version.
+ */
+export function registerResources(
+  server: McpServer,
+  resources: readonly AnyResourceDefinition[],
+  provider: ToolContextProvider,
+) {
+  if (resources.length === 0) return;
+
+  const getContext = async (): Promise<ToolContext> => {
+    const client = await provider.getClient();
+    if (!client) {
+      throw new McpError(ErrorCode.InternalError, "Auth error: Failed to sign in to Supabase");
+    }
+    return { client, userId: provider.getUserId(), props: provider.getProps(), env: provider.env, server };
+  };
+
+  for (const resource of resources) {
+    server.resource(
+      resource.name,
+      new ResourceTemplate(resource.uriTemplate, { list: undefined }),
+      { description: resource.description },
+      async (uri, variables): Promise<ReadResourceResult> => {
+        assertScopes(provider.getProps().scopes, resource.scopes, `resource "${resource.name}"`);
+
+        const data = await resource.read(flattenVariables(variables), await getContext());
+        if (data === null || data === undefined) {
+          throw new McpError(ErrorCode.InvalidParams, `Resource ${uri.href} not found`);
+        }
+
+        const markdown = resource.toMarkdown ? resource.toMarkdown(data) : renderMarkdown(data);
+        return {
+          contents: [
+            { uri: uri.href, mimeType: "application/json", text: JSON.stringify(data, null, 2) },
+            { uri: uri.href, mimeType: "text/markdown", text: markdown },
+          ],
+        };
+      },
+    );
+  }
+
+  // McpServer's default resources/list ignores cursors, so walk the templates page by page here.
+  server.server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    const cursor = request.params?.cursor ? parseCursor(request.params.cursor) : { r: 0, o: 0 };
+
+    const ctx = await getContext();
+    for (let r = cursor.r; r < resources.length; r++) {
+      const list = resources[r].list;
+      if (!list || missingScopes(ctx.props.scopes, resources[r].scopes).length > 0) continue;
+
+      const offset = r === cursor.r ? cursor.o : 0;
+      const page = await list({ offset, limit: PAGE_SIZE }, ctx);
+      if (page.resources.length === 0 && !page.hasMore) continue;
+
+      const next: Cursor | null = page.hasMore
+        ? { r, o: offset + page.resources.length }
+        : r + 1 < resources.length
+          ? { r: r + 1, o: 0 }
+          : null;
+
+      return {
+        resources: page.resources,
+        ...(next ? { nextCursor: btoa(JSON.stringify(next)) } : {}),
+      };
+    }
+
+    return { resources: [] };
+  });
+}
+
+// ── Helpers ──
+
+// Cursors come from the client: malformed ones are rejected as InvalidParams
+function parseCursor(raw: string): Cursor {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(atob(raw));
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, "Invalid cursor");
+  }
+
+  const result = cursorSchema.safeParse(decoded);
+  if (!result.success) {
+    throw new McpError(ErrorCode.InvalidParams, "Invalid cursor");
+  }
+  return result.data;
+}
+
+function flattenVariables(variables: Record<string, string | string[]>): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [key, value] of Object.entries(variables)) {
+    out[key] = Array.isArray(value) ? value[0] : value;
+  }
+  return out;
+}
+
+function renderMarkdown(data: unknown): string {
+  if (Array.isArray(data)) {
+    return data.map((item) => renderMarkdown(item)).join("\n\n---\n\n");
+  }
+  if (data && typeof data === "object") {
+    return Object.entries(data)
+      .map(([key, value]) =>
+        `- **${key}**: ${value !== null && typeof value === "object" ? JSON.stringify(value) : String(value)}`,
+      )
+      .join("\n");
+  }
+  return String(data);
+}
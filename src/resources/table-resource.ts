@@ -0,0 +1,82 @@
+/**
+ * Resource template for rows of a user-owned Supabase table: `app://{name}/{id}`.
+ * Listing and reads are always scoped to the authenticated user via `ownerColumn`.
+ * Database errors are raised as InternalError, so they are not mistaken for a missing row.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "../logger";
+import { defineResource, type ResourceDefinition } from "./registry";
+
+export type TableResourceConfig<Row extends Record<string, unknown> = Record<string, unknown>> = {
+  /** Supabase table name */
+  table: string;
+  /** URI segment and resource name; defaults to the table name */
+  name?: string;
+  description?: string;
+  /** Primary key column (default "id") */
+  primaryKey?: string;
+  /** Column holding the Supabase user ID (e.g. "user_id") */
+  ownerColumn: string;
+  /** Column used as the listed resource name (default: primary key) */
+  titleColumn?: string;
+  /** Defaults to `{name}:read` */
+  scopes?: string[];
+  toMarkdown?: (row: Row) => string;
+};
+
+/**
+ * `Row` types the rows given to `toMarkdown`; it is not checked against the table.
+ */
+export function defineTableResource<Row extends Record<string, unknown> = Record<string, unknown>>(
+  config: TableResourceConfig<Row>,
+): ResourceDefinition<Row> {
+  const name = config.name ?? config.table;
+  const primaryKey = config.primaryKey ?? "id";
+  const titleColumn = config.titleColumn ?? primaryKey;
+  const { table, ownerColumn } = config;
+
+  return defineResource({
+    name,
+    uriTemplate: `app://${name}/{id}`,
+    description: config.description ?? `One of your ${table} rows`,
+    scopes: config.scopes ?? [`${name}:read`],
+    async list({ offset, limit }, { client, userId }) {
+      // Fetch one extra row to know whether another page exists
+      const { data, error } = await client
+        .from(table)
+        .select(primaryKey === titleColumn ? primaryKey : `${primaryKey}, ${titleColumn}`)
+        .eq(ownerColumn, userId)
+        .order(primaryKey)
+        .range(offset, offset + limit);
+      if (error) {
+        logger.error("Resource list failed", { table, error: error.message });
+        throw new McpError(ErrorCode.InternalError, `Database error: ${error.message}`);
+      }
+
+      const rows = (data ?? []) as unknown as Record<string, unknown>[];
+      return {
+        resources: rows.slice(0, limit).map((row) => ({
+          uri: `app://${name}/${encodeURIComponent(String(row[primaryKey]))}`,
+          name: String(row[titleColumn]),
+          mimeType: "application/json",
+        })),
+        hasMore: rows.length > limit,
+      };
+    },
+    async read({ id }, { client, userId }) {
+      const { data, error } = await client
+        .from(table)
+        .select("*")
+        .eq(primaryKey, decodeURIComponent(id))
+        .eq(ownerColumn, userId)
+        .maybeSingle();
+      if (error) {
+        logger.error("Resource read failed", { table, error: error.message });
+        throw new McpError(ErrorCode.InternalError, `Database error: ${error.message}`);
+      }
+      return data;
+    },
+    toMarkdown: config.toMarkdown,
+  });
+}
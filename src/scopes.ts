@@ -0,0 +1,76 @@
+/**
+ * OAuth scopes declared by tools, resources and prompts.
+ *
+ * The approval dialog lists every declared scope; the user's selection is stored
+ * in Props.scopes and checked before each tool call, resource read and prompt get.
+ * Grants issued before scopes were recorded have no Props.scopes; they are held to
+ * LEGACY_SCOPES, the scopes that existed then, and need a new consent for anything else.
+ */
+
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+// Labels shown on the approval dialog. Scopes without an entry are shown as-is.
+export const SCOPE_DESCRIPTIONS: Record<string, string> = {
+  "prompts:write": "プロンプトテンプレートの保存・削除",
+  "audit:read": "ツール利用履歴の閲覧",
+  "line:push": "LINE へのメッセージ送信",
+  "line:read": "LINE で受け取ったメッセージの閲覧",
+};
+
+// Every scope declared before grants recorded Props.scopes. Frozen: never add to this list,
+// so scopes introduced later (including generated table scopes) always need a consent.
+const LEGACY_SCOPES: readonly string[] = Object.freeze(["prompts:write"]);
+
+/**
+ * Collects the distinct scopes declared by the given definitions, sorted by name.
+ */
+export function collectScopes(...definitions: (readonly { scopes: string[] }[])[]): string[] {
+  const scopes = new Set<string>();
+  for (const list of definitions) {
+    for (const definition of list) {
+      for (const scope of definition.scopes) scopes.add(scope);
+    }
+  }
+  return [...scopes].sort();
+}
+
+export function describeScope(scope: string): string {
+  return SCOPE_DESCRIPTIONS[scope] ?? defaultScopeDescription(scope);
+}
+
+/**
+ * Returns the required scopes that were not granted.
+ * `granted` is undefined for grants issued before scopes were recorded (see above).
+ */
+export function missingScopes(granted: string[] | undefined, required: string[]): string[] {
+  const effective = granted ?? LEGACY_SCOPES;
+  return required.filter((scope) => !effective.includes(scope));
+}
+
+/**
+ * Throws an MCP error if any required scope was not granted.
+ */
+export function assertScopes(
+  granted: string[] | undefined,
+  required: string[],
+  target: string,
+) {
+  const missing = missingScopes(granted, required);
+  if (missing.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `Insufficient scope: ${target} requires ${missing.join(", ")}. ` +
+        "Reconnect and grant these permissions on the approval screen.",
+    );
+  }
+}
+
+// ── Helpers ──
+
+// "recipes:read" → "recipes の閲覧", "recipes:write" → "recipes の作成・更新・削除"
+function defaultScopeDescription(scope: string): string {
+  const [resource, action] = scope.split(":");
+  if (action === "read") return `${resource} の閲覧`;
+  if (action === "write") return `${resource} の作成・更新・削除`;
+  return scope;
+}
@@ -1,54 +1,161 @@
 /**
  * Supabase authentication and client creation.
  *
- * Uses signInWithPassword with LINE-derived credentials.
- * This assumes your service creates Supabase users with:
- *   - Email: {lineUserId}@line.com
- *   - Password: {COMMON_PASSWORD_PREFIX}{lineUserId.slice(0, 6)}
- *
- * Adjust the email/password format to match your existing auth logic.
+ * How a LINE user becomes a Supabase session is decided by the AuthStrategy
+ * (see auth-strategy.ts). This module caches the resulting session and builds
+ * clients that carry the user's access token, so RLS applies to every query.
  */
 
-import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { createClient, type Session, type SupabaseClient } from "@supabase/supabase-js";
+import type { AuthStrategy, SignInResult } from "./auth-strategy";
+import { logger } from "./logger";
+
+// Refresh the access token this many seconds before it expires.
+const REFRESH_MARGIN_SECONDS = 60;
+
+// Refreshes in flight, by the refresh token being spent. Supabase rotates refresh tokens,
+// so concurrent tool calls in one Durable Object must share a single refresh: a second
+// call with the same token would fail and fall back to a full sign-in.
+const refreshesInFlight = new Map<string, Promise<StoredSession | null>>();
+
+// Supabase token pair persisted between tool calls.
+// refreshToken is absent for strategies that mint short-lived tokens locally.
+export type StoredSession = {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt: number; // Unix seconds
+  supabaseUserId: string;
+};
+
+export interface SessionStore {
+  get(): Promise<StoredSession | undefined>;
+  put(session: StoredSession): Promise<void>;
+  delete(): Promise<void>;
+}
 
 /**
- * Signs in to Supabase using the LINE user ID and returns the authenticated user ID.
+ * Session store backed by Durable Object storage (e.g. `this.ctx.storage` in McpAgent).
  */
-export async function signInWithLineId(
-  supabaseUrl: string,
-  supabaseAnonKey: string,
-  lineUserId: string,
-  passwordPrefix: string,
-): Promise<{ supabaseUserId: string; client: SupabaseClient } | null> {
-  const client = createClient(supabaseUrl, supabaseAnonKey);
-
-  // ⚠️ Customize this to match your service's auth logic
-  const email = `${lineUserId}@line.com`;
-  const password = `${passwordPrefix}${lineUserId.slice(0, 6)}`;
+export function createDurableObjectSessionStore(
+  storage: DurableObjectStorage,
+  key = "supabase_session",
+): SessionStore {
+  return {
+    get: () => storage.get<StoredSession>(key),
+    put: (session) => storage.put(key, session),
+    delete: async () => {
+      await storage.delete(key);
+    },
+  };
+}
 
-  const { data, error } = await client.auth.signInWithPassword({ email, password });
+export type LineSignInResult =
+  | { status: "ok"; supabaseUserId: string; client: SupabaseClient; session: StoredSession }
+  | Exclude<SignInResult, { status: "ok" }>;
 
-  if (error) {
-    console.error("Supabase signIn failed:", error.message);
-    return null;
-  }
+/**
+ * Signs in to Supabase using the LINE user ID and returns the authenticated user ID.
+ * "not_found" and "error" are passed through from the strategy (see SignInResult).
+ */
+export async function signInWithLineId(strategy: AuthStrategy, lineUserId: string): Promise<LineSignInResult> {
+  const result = await strategy.signIn(lineUserId);
+  if (result.status !== "ok") return result;
 
+  const { session } = result;
   return {
-    supabaseUserId: data.user.id,
-    client,
+    status: "ok",
+    supabaseUserId: session.supabaseUserId,
+    client: createClientWithSession(strategy, session),
+    session,
   };
 }
 
 /**
  * Creates an authenticated Supabase client for tool calls.
- * Re-authenticates each time for simplicity (v1).
+ *
+ * Reuses the session cached in `store` while it is valid, refreshes it shortly
+ * before expiry, and falls back to a full sign-in only when the refresh fails.
+ * Concurrent calls with the same cached session share one refresh.
  */
 export async function createAuthenticatedClient(
-  supabaseUrl: string,
-  supabaseAnonKey: string,
+  strategy: AuthStrategy,
   lineUserId: string,
-  passwordPrefix: string,
+  store: SessionStore,
 ): Promise<SupabaseClient | null> {
-  const result = await signInWithLineId(supabaseUrl, supabaseAnonKey, lineUserId, passwordPrefix);
-  return result?.client ?? null;
+  const cached = await store.get();
+
+  if (cached) {
+    if (cached.expiresAt - REFRESH_MARGIN_SECONDS > Date.now() / 1000) {
+      return createClientWithSession(strategy, cached);
+    }
+
+    const refreshed = cached.refreshToken
+      ? await refreshStoredSession(strategy, cached.refreshToken, store)
+      : null;
+    if (refreshed) {
+      return createClientWithSession(strategy, refreshed);
+    }
+  }
+
+  const result = await signInWithLineId(strategy, lineUserId);
+  if (result.status !== "ok") {
+    await store.delete();
+    return null;
+  }
+
+  await store.put(result.session);
+  return result.client;
+}
+
+export function toStoredSession(session: Session): StoredSession {
+  return {
+    accessToken: session.access_token,
+    refreshToken: session.refresh_token,
+    expiresAt: session.expires_at ?? Math.floor(Date.now() / 1000) + session.expires_in,
+    supabaseUserId: session.user.id,
+  };
+}
+
+// ── Helpers ──
+
+function createClientWithSession(strategy: AuthStrategy, session: StoredSession): SupabaseClient {
+  return createClient(strategy.supabaseUrl, strategy.supabaseAnonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    global: { headers: { Authorization: `Bearer ${session.accessToken}` } },
+  });
+}
+
+// Refreshes and stores the session, joining a refresh of the same token already in flight
+function refreshStoredSession(
+  strategy: AuthStrategy,
+  refreshToken: string,
+  store: SessionStore,
+): Promise<StoredSession | null> {
+  let refresh = refreshesInFlight.get(refreshToken);
+  if (!refresh) {
+    refresh = (async () => {
+      const refreshed = await refreshSession(strategy, refreshToken);
+      if (refreshed) await store.put(refreshed);
+      return refreshed;
+    })().finally(() => refreshesInFlight.delete(refreshToken));
+    refreshesInFlight.set(refreshToken, refresh);
+  }
+  return refresh;
+}
+
+async function refreshSession(
+  strategy: AuthStrategy,
+  refreshToken: string,
+): Promise<StoredSession | null> {
+  const client = createClient(strategy.supabaseUrl, strategy.supabaseAnonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const { data, error } = await client.auth.refreshSession({ refresh_token: refreshToken });
+  if (error || !data.session) {
+    logger.error("Supabase session refresh failed", { error: error?.message ?? "no session returned" });
+    return null;
+  }
+
+  return toStoredSession(data.session);
 }
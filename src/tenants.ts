@@ -0,0 +1,321 @@
+/**
+ * Tenants: several LINE channels and Supabase projects served by one Worker.
+ *
+ * With the TENANT_KV binding a request belongs to a tenant when its path starts with
+ * /t/{id}/ or its hostname is mapped to one. Requests that match no tenant use the
+ * Worker's own vars, as before.
+ *
+ *   tenant:{id}      Tenant config (see tenantConfigSchema), written by PUT /admin/tenants/{id}
+ *   host:{hostname}  Tenant ID for the hostname
+ *
+ * The config becomes the tenant's Env (LINE channel, Supabase project, login providers,
+ * provisioning, rate limits, branding, enabled tools), so the rest of the code reads the
+ * tenant's settings from env as usual. Only bindings and Worker-wide policies (cookie keys,
+ * consent TTL) are inherited; the mock LINE provider and the admin API are never available
+ * to a tenant. The tenant's
+ * OAUTH_KV is the shared namespace under tenant:{id}:, which keeps its clients, grants,
+ * tokens, OAuth state and consent apart; TENANT_ID goes into Props so MyMCP can rebuild
+ * the same env (getTenantEnv) and user objects are named per tenant (see user-object.ts).
+ */
+
+import { z } from "zod";
+import { logger } from "./logger";
+import { rateLimitOverrideSchema } from "./rate-limit";
+
+// Tenant IDs are used in paths and KV keys
+const TENANT_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+const TENANT_PATH_PATTERN = /^\/t\/([a-z0-9][a-z0-9-]{0,62})(?=\/|$)/;
+// RFC 8414 discovery for a path-prefixed issuer
+const TENANT_METADATA_PATTERN = /^\/\.well-known\/oauth-authorization-server\/t\/([a-z0-9][a-z0-9-]{0,62})$/;
+
+export const tenantConfigSchema = z.object({
+  hostnames: z
+    .array(z.string().regex(/^[a-z0-9.-]+$/, "hostnames should be lowercase hostnames without a port"))
+    .default([]),
+  line: z.object({
+    channelId: z.string().regex(/^\d+$/, "line.channelId should be the numeric channel ID"),
+    channelSecret: z.string().min(1),
+    messagingChannelAccessToken: z.string().min(1).optional(),
+    messagingChannelSecret: z.string().min(1).optional(),
+  }),
+  supabase: z.object({
+    url: z.string().url(),
+    anonKey: z.string().min(1),
+    authStrategy: z.enum(["password", "jwt", "service_role"]).optional(),
+    commonPasswordPrefix: z.string().min(1).optional(),
+    jwtSecret: z.string().min(1).optional(),
+    serviceRoleKey: z.string().min(1).optional(),
+    // Table names in the tenant's project; the defaults when omitted
+    tables: z
+      .object({
+        lineUser: z.string().min(1),
+        auditLog: z.string().min(1),
+        userPlan: z.string().min(1),
+        promptTemplate: z.string().min(1),
+        identityLink: z.string().min(1),
+      })
+      .partial()
+      .default({}),
+  }),
+  // Login with the tenant's OpenID Connect provider besides LINE
+  oidc: z
+    .object({
+      issuer: z.string().url(),
+      clientId: z.string().min(1),
+      clientSecret: z.string().min(1),
+      scopes: z.string().optional(),
+      label: z.string().optional(),
+    })
+    .optional(),
+  // Onboarding is disabled when omitted
+  provisioning: z
+    .object({
+      mode: z.enum(["none", "service_role", "edge_function"]),
+      function: z.string().min(1).optional(),
+    })
+    .optional(),
+  // Same shape as RATE_LIMITS; the defaults when omitted
+  rateLimits: rateLimitOverrideSchema.optional(),
+  branding: z
+    .object({
+      name: z.string().optional(),
+      description: z.string().optional(),
+      logoUrl: z.string().url().optional(),
+    })
+    .default({}),
+  // Tool names; every tool when omitted
+  tools: z.array(z.string()).optional(),
+});
+
+export type TenantConfig = z.infer<typeof tenantConfigSchema>;
+
+export type ResolvedTenant = {
+  id: string;
+  env: Env;
+  basePath: string; // "/t/{id}" for path-prefixed tenants, "" for hostnames
+  request: Request;
+};
+
+export interface TenantStore {
+  get(id: string): Promise<TenantConfig | null>;
+  findByHostname(hostname: string): Promise<string | null>;
+  /**
+   * Saves the config and its hostname mappings. Returns the hostnames already mapped
+   * to another tenant; nothing is written unless that list is empty.
+   */
+  put(id: string, config: TenantConfig): Promise<string[]>;
+  delete(id: string): Promise<void>;
+}
+
+export function isTenantId(value: string): boolean {
+  return TENANT_ID_PATTERN.test(value);
+}
+
+/**
+ * Null when multi-tenancy is not enabled (no TENANT_KV binding).
+ */
+export function createTenantStore(env: Env): TenantStore | null {
+  const kv = env.TENANT_KV;
+  if (!kv) return null;
+
+  const store: TenantStore = {
+    async get(id) {
+      const raw = await kv.get(tenantKey(id), "json");
+      if (raw === null) return null;
+
+      const result = tenantConfigSchema.safeParse(raw);
+      if (!result.success) {
+        logger.error("Invalid tenant config", { tenantId: id, issues: result.error.issues });
+        return null;
+      }
+      return result.data;
+    },
+
+    findByHostname(hostname) {
+      return kv.get(hostKey(hostname));
+    },
+
+    async put(id, config) {
+      const owners = await Promise.all(config.hostnames.map((hostname) => kv.get(hostKey(hostname))));
+      const taken = config.hostnames.filter((_, i) => owners[i] !== null && owners[i] !== id);
+      if (taken.length > 0) return taken;
+
+      const previous = await store.get(id);
+      for (const hostname of previous?.hostnames ?? []) {
+        if (!config.hostnames.includes(hostname)) await kv.delete(hostKey(hostname));
+      }
+      await kv.put(tenantKey(id), JSON.stringify(config));
+      for (const hostname of config.hostnames) {
+        await kv.put(hostKey(hostname), id);
+      }
+      return [];
+    },
+
+    async delete(id) {
+      const previous = await store.get(id);
+      for (const hostname of previous?.hostnames ?? []) {
+        await kv.delete(hostKey(hostname));
+      }
+      await kv.delete(tenantKey(id));
+    },
+  };
+  return store;
+}
+
+/**
+ * The config with its secrets reported as "[REDACTED]" (see describeEnv).
+ */
+export function describeTenantConfig(config: TenantConfig) {
+  const redacted = (value: string | undefined) => (value ? "[REDACTED]" : undefined);
+  return {
+    ...config,
+    line: {
+      ...config.line,
+      channelSecret: "[REDACTED]",
+      messagingChannelAccessToken: redacted(config.line.messagingChannelAccessToken),
+      messagingChannelSecret: redacted(config.line.messagingChannelSecret),
+    },
+    supabase: {
+      ...config.supabase,
+      commonPasswordPrefix: redacted(config.supabase.commonPasswordPrefix),
+      jwtSecret: redacted(config.supabase.jwtSecret),
+      serviceRoleKey: redacted(config.supabase.serviceRoleKey),
+    },
+    oidc: config.oidc && { ...config.oidc, clientSecret: "[REDACTED]" },
+  };
+}
+
+/**
+ * The tenant a request belongs to, with its env and the request to hand to the
+ * OAuth provider; null when it belongs to no (configured) tenant.
+ */
+export async function resolveTenant(request: Request, env: Env): Promise<ResolvedTenant | null> {
+  const store = createTenantStore(env);
+  if (!store) return null;
+
+  const url = new URL(request.url);
+  const metadataMatch = url.pathname.match(TENANT_METADATA_PATTERN);
+  const pathMatch = url.pathname.match(TENANT_PATH_PATTERN);
+
+  let id: string | null;
+  let basePath = "";
+  if (metadataMatch || pathMatch) {
+    id = (metadataMatch ?? pathMatch)![1];
+    basePath = `/t/${id}`;
+  } else {
+    id = await store.findByHostname(url.hostname);
+  }
+  if (!id) return null;
+
+  const config = await store.get(id);
+  if (!config) return null;
+
+  if (metadataMatch) {
+    // The provider only serves metadata at the root well-known path
+    url.pathname = "/.well-known/oauth-authorization-server";
+    request = new Request(url, request);
+  }
+  return { id, env: applyTenantConfig(env, id, config, basePath), basePath, request };
+}
+
+/**
+ * The env of a tenant named in Props, for code running outside the request
+ * (MyMCP sessions and user objects). Returns `env` itself when there is no tenant,
+ * and null when the tenant is no longer configured.
+ */
+export async function getTenantEnv(env: Env, tenantId: string | undefined): Promise<Env | null> {
+  if (!tenantId) return env;
+
+  const config = await createTenantStore(env)?.get(tenantId);
+  return config ? applyTenantConfig(env, tenantId, config, "") : null;
+}
+
+/**
+ * Removes the base path, so the LINE handler sees the same routes for every tenant.
+ */
+export function stripBasePath(request: Request, basePath: string): Request {
+  const url = new URL(request.url);
+  if (!basePath || !url.pathname.startsWith(basePath)) return request;
+
+  url.pathname = url.pathname.slice(basePath.length) || "/";
+  return new Request(url, request);
+}
+
+// ── Helpers ──
+
+// Built up from nothing rather than laid over `env`, so a setting added to Env later is not
+// inherited by tenants until it is listed here
+function applyTenantConfig(env: Env, id: string, config: TenantConfig, basePath: string): Env {
+  const { tables } = config.supabase;
+  return {
+    // Shared by every tenant
+    MCP_OBJECT: env.MCP_OBJECT,
+    METRICS: env.METRICS,
+    COOKIE_ENCRYPTION_KEY: env.COOKIE_ENCRYPTION_KEY,
+    COOKIE_PREVIOUS_KEYS: env.COOKIE_PREVIOUS_KEYS,
+    ENCRYPT_COOKIES: env.ENCRYPT_COOKIES,
+    CONSENT_TTL_DAYS: env.CONSENT_TTL_DAYS,
+    REVOKE_GRANTS_ON_UNFOLLOW: env.REVOKE_GRANTS_ON_UNFOLLOW,
+
+    TENANT_ID: id,
+    BASE_PATH: basePath,
+    OAUTH_KV: prefixKv(env.OAUTH_KV, `tenant:${id}:`),
+    LINE_CHANNEL_ID: config.line.channelId,
+    LINE_CHANNEL_SECRET: config.line.channelSecret,
+    LINE_MESSAGING_CHANNEL_ACCESS_TOKEN: config.line.messagingChannelAccessToken,
+    LINE_MESSAGING_CHANNEL_SECRET: config.line.messagingChannelSecret,
+    SUPABASE_URL: config.supabase.url,
+    SUPABASE_ANON_KEY: config.supabase.anonKey,
+    AUTH_STRATEGY: config.supabase.authStrategy,
+    COMMON_PASSWORD_PREFIX: config.supabase.commonPasswordPrefix,
+    SUPABASE_JWT_SECRET: config.supabase.jwtSecret,
+    SUPABASE_SERVICE_ROLE_KEY: config.supabase.serviceRoleKey,
+    LINE_USER_TABLE: tables.lineUser,
+    AUDIT_LOG_TABLE: tables.auditLog,
+    USER_PLAN_TABLE: tables.userPlan,
+    PROMPT_TEMPLATE_TABLE: tables.promptTemplate,
+    IDENTITY_LINK_TABLE: tables.identityLink,
+    OIDC_ISSUER: config.oidc?.issuer,
+    OIDC_CLIENT_ID: config.oidc?.clientId,
+    OIDC_CLIENT_SECRET: config.oidc?.clientSecret,
+    OIDC_SCOPES: config.oidc?.scopes,
+    OIDC_LABEL: config.oidc?.label,
+    PROVISIONING: config.provisioning?.mode,
+    PROVISIONING_FUNCTION: config.provisioning?.function,
+    RATE_LIMITS: config.rateLimits && JSON.stringify(config.rateLimits),
+    SERVER_NAME: config.branding.name,
+    SERVER_DESCRIPTION: config.branding.description,
+    SERVER_LOGO_URL: config.branding.logoUrl,
+    ENABLED_TOOLS: config.tools?.join(","),
+    // Left unset: TENANT_KV and ADMIN_API_TOKEN (the admin API), MOCK_LINE*, and the
+    // LINE API base URLs, which only point elsewhere for the mock
+  };
+}
+
+// A view of `kv` in which every key is under `prefix`
+function prefixKv(kv: OAuthKVNamespace, prefix: string): OAuthKVNamespace {
+  function get(key: string): Promise<string | null>;
+  function get<T>(key: string, type: "json"): Promise<T | null>;
+  function get<T>(key: string, options: { type: "json" }): Promise<T | null>;
+  function get<T>(key: string, type?: "json" | { type: "json" }): Promise<T | string | null> {
+    return type ? kv.get<T>(prefix + key, "json") : kv.get(prefix + key);
+  }
+
+  return {
+    get,
+    put: (key, value, options) => kv.put(prefix + key, value, options),
+    delete: (key) => kv.delete(prefix + key),
+    async list<Metadata>(options?: KVNamespaceListOptions) {
+      const page = await kv.list<Metadata>({ ...options, prefix: prefix + (options?.prefix ?? "") });
+      return { ...page, keys: page.keys.map((key) => ({ ...key, name: key.name.slice(prefix.length) })) };
+    },
+  };
+}
+
+function tenantKey(id: string) {
+  return `tenant:${id}`;
+}
+
+function hostKey(hostname: string) {
+  return `host:${hostname}`;
+}
@@ -0,0 +1,32 @@
+/**
+ * Lets users see their own tool call history (forwarded to Supabase about once a minute).
+ */
+
+import { z } from "zod";
+import { DEFAULT_AUDIT_LOG_TABLE } from "../audit";
+import { defineTool } from "./registry";
+
+export default defineTool({
+  name: "get_my_audit_log",
+  description: "Lists your recent MCP tool calls (newest first). Calls from the last minute may not appear yet.",
+  inputSchema: {
+    tool: z.string().optional().describe("Only show calls to this tool"),
+    since: z.string().datetime().optional().describe("Only show calls at or after this ISO 8601 time"),
+    limit: z.number().int().min(1).max(100).default(20),
+  },
+  scopes: ["audit:read"],
+  async handler({ tool, since, limit }, { client, userId, env }) {
+    let query = client
+      .from(env.AUDIT_LOG_TABLE || DEFAULT_AUDIT_LOG_TABLE)
+      .select("created_at, client_id, tool, arguments, duration_ms, outcome, error")
+      .eq("user_id", userId);
+    if (tool) query = query.eq("tool", tool);
+    if (since) query = query.gte("created_at", since);
+
+    const { data, error } = await query.order("created_at", { ascending: false }).limit(limit);
+    if (error) {
+      return { content: [{ type: "text", text: `Database error: ${error.message}` }], isError: true };
+    }
+    return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+  },
+});
@@ -5,45 +5,33 @@
  * It demonstrates how to use the Supabase client and user ID in a tool.
  */
 
-import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { SupabaseClient } from "@supabase/supabase-js";
+import { defineTool } from "./registry";
 
-export function registerHello(
-  server: McpServer,
-  getClient: () => Promise<SupabaseClient | null>,
-  getUserId: () => string,
-) {
-  server.tool(
-    "hello",
-    "Returns a greeting with the authenticated user's info. Replace this with your own tools.",
-    {},
-    async () => {
-      const client = await getClient();
-      if (!client) {
-        return { content: [{ type: "text", text: "Auth error: Failed to sign in to Supabase" }] };
-      }
+export default defineTool({
+  name: "hello",
+  description: "Returns a greeting with the authenticated user's info. Replace this with your own tools.",
+  inputSchema: {},
+  scopes: [],
+  async handler(_args, { client, userId, props }) {
+    // Example: query your own table here
+    // const { data, error } = await client.from("your_table").select("*").eq("user_id", userId);
 
-      const userId = getUserId();
-
-      // Example: query your own table here
-      // const { data, error } = await client.from("your_table").select("*").eq("user_id", userId);
-
-      return {
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify(
-              {
-                message: "Hello from your MCP server!",
-                supabase_user_id: userId,
-                hint: "Replace this tool with your own in src/tools/",
-              },
-              null,
-              2,
-            ),
-          },
-        ],
-      };
-    },
-  );
-}
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              message: "Hello from your MCP server!",
+              supabase_user_id: userId,
+              display_name: props.displayName,
+              hint: "Replace this tool with your own in src/tools/",
+            },
+            null,
+            2,
+          ),
+        },
+      ],
+    };
+  },
+});
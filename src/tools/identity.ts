@@ -0,0 +1,45 @@
+/**
+ * Shows the identity behind this connection and whether it is still valid
+ * (re-checked against Supabase and LINE, see identity.ts).
+ */
+
+import { z } from "zod";
+import { getUserObject } from "../user-object";
+import { defineTool } from "./registry";
+
+export default defineTool({
+  name: "get_identity",
+  description:
+    "Shows who this connection is signed in as (LINE and Supabase account, granted scopes) " +
+    "and whether the account is still valid. The result may be up to 15 minutes old unless refresh is set.",
+  inputSchema: {
+    refresh: z.boolean().default(false).describe("Re-check Supabase and the LINE profile now"),
+  },
+  scopes: [],
+  async handler({ refresh }, { props, env }) {
+    const state = await getUserObject(env, props.lineUserId).revalidateIdentity(props, refresh);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              status: state.status,
+              reason: state.reason,
+              line_user_id: props.lineUserId,
+              display_name: state.displayName,
+              picture_url: state.pictureUrl,
+              supabase_user_id: state.supabaseUserId,
+              client_id: props.clientId,
+              scopes: props.scopes,
+              checked_at: new Date(state.checkedAt).toISOString(),
+            },
+            null,
+            2,
+          ),
+        },
+      ],
+    };
+  },
+});
@@ -0,0 +1,42 @@
+/**
+ * Tool registry — every tool module under src/tools/ is listed here.
+ *
+ * Add your tool by importing its default export and appending it to `tools`.
+ * CRUD tools for tables declared in tables.ts are generated and appended too.
+ * Both MyMCP (index.ts) and MyMCPDev (index.dev.ts) register this list,
+ * narrowed to ENABLED_TOOLS when set (e.g. per tenant, see tenants.ts).
+ *
+ * The list is kept by hand: a Worker cannot read src/tools/ at runtime and wrangler's
+ * bundler has no glob imports, so it would take a codegen step. It also fixes the order
+ * in which clients see the tools.
+ */
+
+import auditLog from "./audit-log";
+import hello from "./hello";
+import identity from "./identity";
+import lineInbox from "./line-inbox";
+import lineMessage from "./line-message";
+import { deletePromptTemplate, savePromptTemplate } from "./prompt-templates";
+import type { AnyToolDefinition } from "./registry";
+import { defineTableTools } from "./table-tools";
+import { tables } from "./tables";
+
+export const tools: readonly AnyToolDefinition[] = [
+  hello,
+  identity,
+  savePromptTemplate,
+  deletePromptTemplate,
+  auditLog,
+  lineMessage,
+  lineInbox,
+  ...tables.flatMap(defineTableTools),
+];
+
+/**
+ * The tools named in ENABLED_TOOLS (comma-separated; empty for none), or every tool when it is not set.
+ */
+export function getEnabledTools(env: Env): readonly AnyToolDefinition[] {
+  if (env.ENABLED_TOOLS === undefined) return tools;
+  const enabled = env.ENABLED_TOOLS.split(",").map((name) => name.trim());
+  return tools.filter((tool) => enabled.includes(tool.name));
+}
@@ -0,0 +1,41 @@
+/**
+ * Reads what the user sent to the LINE account (kept by the /webhook route).
+ * Clients on the streamable HTTP transport cannot receive the live notifications,
+ * so this is how they see replies.
+ */
+
+import { z } from "zod";
+import { getUserObject } from "../user-object";
+import { defineTool } from "./registry";
+
+export default defineTool({
+  name: "get_line_messages",
+  description:
+    "Lists recent LINE events from you (messages, button taps, follow/unfollow), newest first. " +
+    "Use after send_line_message to check for a reply.",
+  inputSchema: {
+    since: z.string().datetime().optional().describe("Only show events after this ISO 8601 time"),
+  },
+  scopes: ["line:read"],
+  async handler({ since }, { props, env }) {
+    const events = await getUserObject(env, props.lineUserId).getLineInbox(
+      since ? Date.parse(since) : undefined,
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            events.map(({ id: _id, lineUserId: _lineUserId, timestamp, ...event }) => ({
+              ...event,
+              at: new Date(timestamp).toISOString(),
+            })),
+            null,
+            2,
+          ),
+        },
+      ],
+    };
+  },
+});
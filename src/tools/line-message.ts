@@ -0,0 +1,67 @@
+/**
+ * Sends a LINE message to the caller's own LINE account (never to anyone else).
+ * Rate limited by the `send_line_message` entry in DEFAULT_RATE_LIMITS.tools.
+ */
+
+import { z } from "zod";
+import { getLineMessagingClient, quickReply, type LineMessage } from "../line-messaging";
+import { defineTool } from "./registry";
+
+export default defineTool({
+  name: "send_line_message",
+  description:
+    "Sends a message to your own LINE account: plain text, a Flex Message, or both. " +
+    "Quick reply buttons are attached to the last message.",
+  inputSchema: {
+    text: z.string().min(1).max(5000).optional().describe("Plain text message"),
+    flex: z
+      .object({
+        altText: z.string().min(1).max(1500).describe("Shown in notifications and chat lists"),
+        contents: z.record(z.unknown()).describe("Flex Message container (bubble or carousel) JSON"),
+      })
+      .optional()
+      .describe("Flex Message, see https://developers.line.biz/en/docs/messaging-api/using-flex-messages/"),
+    quickReplies: z
+      .array(z.string().min(1).max(300))
+      .max(13)
+      .optional()
+      .describe("Quick reply button texts; tapping one sends the text back"),
+  },
+  scopes: ["line:push"],
+  async handler({ text, flex, quickReplies }, { props, env }) {
+    const messaging = getLineMessagingClient(env);
+    if (!messaging) {
+      return {
+        content: [{ type: "text", text: "LINE messaging is not configured on this server" }],
+        isError: true,
+      };
+    }
+
+    const messages: LineMessage[] = [];
+    if (text) messages.push({ type: "text", text });
+    if (flex) messages.push({ type: "flex", altText: flex.altText, contents: flex.contents });
+    if (messages.length === 0) {
+      return { content: [{ type: "text", text: "Provide text, flex, or both" }], isError: true };
+    }
+    if (quickReplies?.length) {
+      messages[messages.length - 1].quickReply = quickReply(quickReplies);
+    }
+
+    const [sent, error] = await messaging.push(props.lineUserId, messages);
+    if (error) {
+      return {
+        content: [{ type: "text", text: `LINE API error (${error.status}): ${error.message}` }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ sent: messages.length, request_id: sent.requestId }, null, 2),
+        },
+      ],
+    };
+  },
+});
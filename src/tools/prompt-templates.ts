@@ -0,0 +1,74 @@
+/**
+ * Tools for managing the caller's own prompt templates.
+ * Saved templates appear in prompts/list for every session of the same user; the calling
+ * session is also sent prompts/list_changed so its client refreshes the list.
+ */
+
+import { z } from "zod";
+import { DEFAULT_PROMPT_TEMPLATE_TABLE } from "../prompts/registry";
+import { defineTool } from "./registry";
+
+const argumentSchema = z.object({
+  name: z.string().regex(/^[\w-]+$/),
+  description: z.string().optional(),
+  required: z.boolean().optional(),
+});
+
+export const savePromptTemplate = defineTool({
+  name: "save_prompt_template",
+  description:
+    "Saves (or overwrites) one of your prompt templates. Use {{argument}} placeholders in the template.",
+  inputSchema: {
+    name: z.string().regex(/^[\w-]+$/).max(64).describe("Prompt name (letters, digits, _ and -)"),
+    description: z.string().max(500).optional().describe("Shown in the prompt list"),
+    template: z.string().min(1).max(10000).describe("Prompt text with {{argument}} placeholders"),
+    arguments: z.array(argumentSchema).default([]).describe("Arguments used by the template"),
+  },
+  scopes: ["prompts:write"],
+  async handler(args, { client, userId, env, server }) {
+    const { error } = await client
+      .from(env.PROMPT_TEMPLATE_TABLE || DEFAULT_PROMPT_TEMPLATE_TABLE)
+      .upsert(
+        {
+          user_id: userId,
+          name: args.name,
+          description: args.description ?? null,
+          template: args.template,
+          arguments: args.arguments,
+        },
+        { onConflict: "user_id,name" },
+      );
+
+    if (error) {
+      return { content: [{ type: "text", text: `Database error: ${error.message}` }], isError: true };
+    }
+    server.sendPromptListChanged();
+    return { content: [{ type: "text", text: `Saved prompt template "${args.name}"` }] };
+  },
+});
+
+export const deletePromptTemplate = defineTool({
+  name: "delete_prompt_template",
+  description: "Deletes one of your prompt templates.",
+  inputSchema: {
+    name: z.string().describe("Prompt name"),
+  },
+  scopes: ["prompts:write"],
+  async handler({ name }, { client, userId, env, server }) {
+    const { data, error } = await client
+      .from(env.PROMPT_TEMPLATE_TABLE || DEFAULT_PROMPT_TEMPLATE_TABLE)
+      .delete()
+      .eq("user_id", userId)
+      .eq("name", name)
+      .select("name");
+
+    if (error) {
+      return { content: [{ type: "text", text: `Database error: ${error.message}` }], isError: true };
+    }
+    if (data.length === 0) {
+      return { content: [{ type: "text", text: `Not found: prompt template "${name}"` }], isError: true };
+    }
+    server.sendPromptListChanged();
+    return { content: [{ type: "text", text: `Deleted prompt template "${name}"` }] };
+  },
+});
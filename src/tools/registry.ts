@@ -0,0 +1,117 @@
+/**
+ * Declarative tool format and registration.
+ *
+ * A tool module default-exports `defineTool({...})`. All modules are listed in
+ * `src/tools/index.ts`, and `registerTools` wires them onto an McpServer, so the
+ * production and dev agents always expose the same set.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z, type ZodRawShape } from "zod";
+import { assertScopes } from "../scopes";
+import type { Props } from "../utils";
+
+// Passed to every tool handler.
+export type ToolContext = {
+  client: SupabaseClient;
+  userId: string;
+  props: Props;
+  env: Env;
+  /** The session's server, for notifications such as prompts/list_changed */
+  server: McpServer;
+};
+
+export type ToolDefinition<Args extends ZodRawShape = ZodRawShape> = {
+  name: string;
+  description: string;
+  inputSchema: Args;
+  scopes: string[];
+  handler: (args: z.objectOutputType<Args, z.ZodTypeAny>, ctx: ToolContext) => Promise<CallToolResult>;
+};
+
+/**
+ * A tool of any input schema, for lists of tools. `handler` is a method so its arguments
+ * are checked bivariantly and every ToolDefinition<Args> fits; the server only ever passes
+ * it arguments parsed with the tool's own `inputSchema`.
+ */
+export type AnyToolDefinition = Omit<ToolDefinition, "handler"> & {
+  handler(args: z.objectOutputType<ZodRawShape, z.ZodTypeAny>, ctx: ToolContext): Promise<CallToolResult>;
+};
+
+// How the agent supplies per-call context to the registry.
+export type ToolContextProvider = {
+  getClient: () => Promise<SupabaseClient | null>;
+  getUserId: () => string;
+  getProps: () => Props;
+  env: Env;
+};
+
+// Wraps every tool call (audit logging, rate limiting, ...). Call `next()` to run the tool.
+export type ToolMiddleware = (
+  call: { tool: AnyToolDefinition; args: Record<string, unknown>; props: Props },
+  next: () => Promise<CallToolResult>,
+) => Promise<CallToolResult>;
+
+/**
+ * Identity helper that infers handler argument types from the input schema.
+ */
+export function defineTool<Args extends ZodRawShape>(definition: ToolDefinition<Args>): ToolDefinition<Args> {
+  return definition;
+}
+
+/**
+ * Registers the given tools on the server.
+ * Granted scopes are checked first, so a call without them never reaches the middlewares
+ * (no rate-limit tokens or audit entries). Middlewares then run outermost-first around
+ * resolving the Supabase client and running the handler.
+ */
+export function registerTools(
+  server: McpServer,
+  tools: readonly AnyToolDefinition[],
+  provider: ToolContextProvider,
+  middlewares: readonly ToolMiddleware[] = [],
+) {
+  for (const tool of tools) {
+    const invoke = async (args: Record<string, unknown>): Promise<CallToolResult> => {
+      const client = await provider.getClient();
+      if (!client) {
+        return { content: [{ type: "text", text: "Auth error: Failed to sign in to Supabase" }] };
+      }
+
+      return tool.handler(args, {
+        client,
+        userId: provider.getUserId(),
+        props: provider.getProps(),
+        env: provider.env,
+        server,
+      });
+    };
+
+    const callback = async (args: Record<string, unknown>): Promise<CallToolResult> => {
+      assertScopes(provider.getProps().scopes, tool.scopes, `tool "${tool.name}"`);
+
+      const call = { tool, args, props: provider.getProps() };
+      const run = middlewares.reduceRight<() => Promise<CallToolResult>>(
+        (next, middleware) => () => middleware(call, next),
+        () => invoke(args),
+      );
+      return run();
+    };
+
+    server.tool(tool.name, tool.description, tool.inputSchema, callback);
+  }
+}
+
+/**
+ * Lists tool metadata without starting a server (for docs, tests and debugging).
+ */
+export function describeTools(tools: readonly AnyToolDefinition[]) {
+  return tools.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    scopes: tool.scopes,
+    inputSchema: z.object(tool.inputSchema),
+  }));
+}
@@ -0,0 +1,215 @@
+/**
+ * Generates CRUD tools for a user-owned Supabase table from a declarative description.
+ *
+ * Every query is scoped to the authenticated user through `ownerColumn`, and the
+ * owner column / primary key can never be written by the client.
+ *
+ * Generated tools (for `name: "recipes"`):
+ *   list_recipes, get_recipes, create_recipes, update_recipes, delete_recipes
+ */
+
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z, type ZodRawShape, type ZodTypeAny } from "zod";
+import { type AnyToolDefinition, defineTool } from "./registry";
+
+export type TableOperation = "list" | "get" | "create" | "update" | "delete";
+
+export type TableConfig = {
+  /** Supabase table name */
+  table: string;
+  /** Tool name suffix; defaults to the table name */
+  name?: string;
+  /** Human-readable description used in tool descriptions */
+  description?: string;
+  /** Primary key column (default "id") */
+  primaryKey?: string;
+  /** Column holding the Supabase user ID (e.g. "user_id") */
+  ownerColumn: string;
+  /**
+   * Writable / filterable columns. Do not include the primary key, the owner column
+   * or the names the tools use for their own parameters (see RESERVED_PARAMETERS).
+   */
+  columns: Record<string, ZodTypeAny>;
+  operations: TableOperation[];
+  /** Defaults to `{name}:read` and `{name}:write` */
+  scopes?: { read: string[]; write: string[] };
+};
+
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+
+// Parameters of the generated tools that share an input schema with the columns
+const RESERVED_PARAMETERS = ["id", "order_by", "ascending", "limit", "offset"];
+
+/**
+ * Builds the tool definitions for one table.
+ * Throws if the config would let clients write the primary key or owner column, or if
+ * a column would shadow one of the tools' own parameters.
+ */
+export function defineTableTools(config: TableConfig): AnyToolDefinition[] {
+  const name = config.name ?? config.table;
+  const label = config.description ?? config.table;
+  const primaryKey = config.primaryKey ?? "id";
+  const { table, ownerColumn, columns } = config;
+  const scopes = config.scopes ?? { read: [`${name}:read`], write: [`${name}:write`] };
+
+  for (const reserved of [primaryKey, ownerColumn, ...RESERVED_PARAMETERS]) {
+    if (Object.hasOwn(columns, reserved)) {
+      throw new Error(`Table tools for "${table}": column "${reserved}" must not be listed in columns`);
+    }
+  }
+
+  const columnNames = Object.keys(columns);
+  const idSchema = z.union([z.string(), z.number()]).describe(`${primaryKey} of the row`);
+  const tools: AnyToolDefinition[] = [];
+
+  if (config.operations.includes("list")) {
+    const filters: ZodRawShape = {};
+    for (const [column, schema] of Object.entries(columns)) {
+      filters[column] = schema.optional().describe(`Filter: ${column} equals this value`);
+    }
+
+    tools.push(
+      defineTool({
+        name: `list_${name}`,
+        description: `Lists your ${label}. Supports equality filters, sorting and pagination.`,
+        inputSchema: {
+          ...filters,
+          order_by: z.enum([primaryKey, ...columnNames] as [string, ...string[]]).optional(),
+          ascending: z.boolean().default(true),
+          limit: z.number().int().min(1).max(MAX_LIST_LIMIT).default(DEFAULT_LIST_LIMIT),
+          offset: z.number().int().min(0).default(0),
+        },
+        scopes: scopes.read,
+        async handler(args, { client, userId }) {
+          let query = client.from(table).select("*").eq(ownerColumn, userId);
+          for (const [column, value] of Object.entries(pick(args, columnNames))) {
+            // `column = null` never matches in SQL; nullable columns are filtered with IS NULL
+            query = value === null ? query.is(column, null) : query.eq(column, value);
+          }
+          if (args.order_by) query = query.order(args.order_by, { ascending: args.ascending });
+
+          const { data, error } = await query.range(args.offset, args.offset + args.limit - 1);
+          return error ? dbError(error.message) : json(data);
+        },
+      }),
+    );
+  }
+
+  if (config.operations.includes("get")) {
+    tools.push(
+      defineTool({
+        name: `get_${name}`,
+        description: `Gets one of your ${label} by ${primaryKey}.`,
+        inputSchema: { id: idSchema },
+        scopes: scopes.read,
+        async handler({ id }, { client, userId }) {
+          const { data, error } = await client
+            .from(table)
+            .select("*")
+            .eq(primaryKey, id)
+            .eq(ownerColumn, userId)
+            .maybeSingle();
+          if (error) return dbError(error.message);
+          return data ? json(data) : notFound(label, id);
+        },
+      }),
+    );
+  }
+
+  if (config.operations.includes("create")) {
+    tools.push(
+      defineTool({
+        name: `create_${name}`,
+        description: `Creates one of your ${label}.`,
+        inputSchema: columns,
+        scopes: scopes.write,
+        async handler(args, { client, userId }) {
+          const { data, error } = await client
+            .from(table)
+            .insert({ ...pick(args, columnNames), [ownerColumn]: userId })
+            .select()
+            .single();
+          return error ? dbError(error.message) : json(data);
+        },
+      }),
+    );
+  }
+
+  if (config.operations.includes("update")) {
+    const partial: ZodRawShape = {};
+    for (const [column, schema] of Object.entries(columns)) {
+      partial[column] = schema.optional();
+    }
+
+    tools.push(
+      defineTool({
+        name: `update_${name}`,
+        description: `Updates one of your ${label}. Only the given fields are changed.`,
+        inputSchema: { id: idSchema, ...partial },
+        scopes: scopes.write,
+        async handler(args, { client, userId }) {
+          const values = pick(args, columnNames);
+          if (Object.keys(values).length === 0) {
+            return { content: [{ type: "text", text: "Nothing to update" }], isError: true };
+          }
+
+          const { data, error } = await client
+            .from(table)
+            .update(values)
+            .eq(primaryKey, args.id)
+            .eq(ownerColumn, userId)
+            .select()
+            .maybeSingle();
+          if (error) return dbError(error.message);
+          return data ? json(data) : notFound(label, args.id);
+        },
+      }),
+    );
+  }
+
+  if (config.operations.includes("delete")) {
+    tools.push(
+      defineTool({
+        name: `delete_${name}`,
+        description: `Deletes one of your ${label} by ${primaryKey}.`,
+        inputSchema: { id: idSchema },
+        scopes: scopes.write,
+        async handler({ id }, { client, userId }) {
+          const { data, error } = await client
+            .from(table)
+            .delete()
+            .eq(primaryKey, id)
+            .eq(ownerColumn, userId)
+            .select();
+          if (error) return dbError(error.message);
+          return data.length > 0 ? json({ deleted: id }) : notFound(label, id);
+        },
+      }),
+    );
+  }
+
+  return tools;
+}
+
+// ── Helpers ──
+
+function pick(args: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (args[key] !== undefined) out[key] = args[key];
+  }
+  return out;
+}
+
+function json(data: unknown): CallToolResult {
+  return { content: [{ type: "text", text: JSON.stringify(data, null, 2) }] };
+}
+
+function dbError(message: string): CallToolResult {
+  return { content: [{ type: "text", text: `Database error: ${message}` }], isError: true };
+}
+
+function notFound(label: string, id: unknown): CallToolResult {
+  return { content: [{ type: "text", text: `Not found: ${label} ${String(id)}` }], isError: true };
+}
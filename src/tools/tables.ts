@@ -0,0 +1,23 @@
+/**
+ * Table schema file — declare user-owned Supabase tables to expose as CRUD tools.
+ *
+ * Each entry generates list/get/create/update/delete tools (see table-tools.ts).
+ * RLS still applies; `ownerColumn` additionally scopes every query to the caller.
+ */
+
+import type { TableConfig } from "./table-tools";
+
+export const tables: TableConfig[] = [
+  // Example (add `import { z } from "zod";` above):
+  // {
+  //   table: "recipes",
+  //   description: "recipes",
+  //   ownerColumn: "user_id",
+  //   columns: {
+  //     title: z.string().min(1).describe("Recipe title"),
+  //     servings: z.number().int().positive().describe("Number of servings"),
+  //     memo: z.string().nullable().describe("Free-form notes"),
+  //   },
+  //   operations: ["list", "get", "create", "update", "delete"],
+  // },
+];
@@ -0,0 +1,50 @@
+/**
+ * Per-user MyMCP instance.
+ *
+ * MyMCP normally runs one Durable Object per MCP session. State shared by all of
+ * a user's sessions (rate-limit buckets, the LINE event inbox, the list of live
+ * sessions, identity state) lives in one more instance named `user:{lineUserId}`, reached over RPC.
+ * For a tenant (see tenants.ts) the instance is `user:{tenantId}:{lineUserId}`.
+ */
+
+import type { MyMCP } from "./index";
+
+export function getUserObject(env: Env, lineUserId: string): DurableObjectStub<MyMCP> {
+  const namespace = env.MCP_OBJECT as unknown as DurableObjectNamespace<MyMCP>;
+  const name = env.TENANT_ID ? `user:${env.TENANT_ID}:${lineUserId}` : `user:${lineUserId}`;
+  return namespace.get(namespace.idFromName(name));
+}
+
+/**
+ * Stub for a session instance registered with the user object (by its hex ID).
+ */
+export function getSessionObject(env: Env, sessionId: string): DurableObjectStub<MyMCP> {
+  const namespace = env.MCP_OBJECT as unknown as DurableObjectNamespace<MyMCP>;
+  return namespace.get(namespace.idFromString(sessionId));
+}
+
+// ── Session registry (stored in the user object) ──
+
+// Sessions that have not re-registered for this long are dropped
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+export async function registerSession(storage: DurableObjectStorage, sessionId: string) {
+  const sessions = (await storage.get<Record<string, number>>("sessions")) ?? {};
+  sessions[sessionId] = Date.now();
+  await storage.put("sessions", sessions);
+}
+
+export async function unregisterSessions(storage: DurableObjectStorage, sessionIds: string[]) {
+  if (sessionIds.length === 0) return;
+  const sessions = (await storage.get<Record<string, number>>("sessions")) ?? {};
+  for (const id of sessionIds) delete sessions[id];
+  await storage.put("sessions", sessions);
+}
+
+export async function listSessions(storage: DurableObjectStorage): Promise<string[]> {
+  const sessions = (await storage.get<Record<string, number>>("sessions")) ?? {};
+  const cutoff = Date.now() - SESSION_TTL_MS;
+  return Object.entries(sessions)
+    .filter(([, registeredAt]) => registeredAt >= cutoff)
+    .map(([id]) => id);
+}
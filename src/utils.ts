@@ -2,12 +2,49 @@
  * LINE OAuth helpers and Props type for the MCP server.
  */
 
+import type { IdentityProviderId } from "./identity-providers";
+import { decodeJwt, verifyEs256, verifyHs256 } from "./jwt";
+import { logger, type Logger } from "./logger";
+
+const LINE_ISSUER = "https://access.line.me";
+
+// Override with LINE_AUTH_BASE_URL / LINE_API_BASE_URL, e.g. to use the mock provider (mock-line.ts)
+export const DEFAULT_LINE_AUTH_BASE_URL = "https://access.line.me";
+export const DEFAULT_LINE_API_BASE_URL = "https://api.line.me";
+
 // Context stored in the MCP auth token and available as this.props in McpAgent.
 // Customize this type to include any user context your tools need.
 export type Props = {
   lineUserId: string;
   supabaseUserId: string;
   displayName: string;
+  pictureUrl?: string;
+  email?: string;
+  scopes?: string[]; // Granted on the approval dialog
+  clientId?: string; // OAuth client that holds the token
+  provider?: IdentityProviderId; // Login used to authorize; absent on tokens issued before providers ("line")
+  requestId?: string; // Request ID of the authorization that issued the token, for log correlation
+  tenantId?: string; // Tenant the token was issued for (see tenants.ts); absent for the Worker's own project
+};
+
+// LINE Login access token, kept after login so the profile can be re-read later.
+export type LineTokenSet = {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: number; // Unix seconds
+};
+
+// Verified claims from a LINE Login ID token.
+export type LineIdTokenClaims = {
+  iss: string;
+  sub: string;
+  aud: string;
+  exp: number;
+  iat: number;
+  nonce?: string;
+  name?: string;
+  picture?: string;
+  email?: string;
 };
 
 /**
@@ -17,35 +54,50 @@ export function getLineAuthorizeUrl({
   channelId,
   redirectUri,
   state,
+  nonce,
+  codeChallenge,
+  baseUrl = DEFAULT_LINE_AUTH_BASE_URL,
 }: {
   channelId: string;
   redirectUri: string;
   state: string;
+  nonce: string;
+  codeChallenge: string;
+  baseUrl?: string;
 }): string {
-  const url = new URL("https://access.line.me/oauth2/v2.1/authorize");
+  const url = new URL(`${baseUrl}/oauth2/v2.1/authorize`);
   url.searchParams.set("response_type", "code");
   url.searchParams.set("client_id", channelId);
   url.searchParams.set("redirect_uri", redirectUri);
   url.searchParams.set("state", state);
+  url.searchParams.set("nonce", nonce);
+  url.searchParams.set("code_challenge", codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
   url.searchParams.set("scope", "profile openid");
   return url.href;
 }
 
 /**
- * Exchanges a LINE authorization code for an access token.
+ * Exchanges a LINE authorization code for an access token and ID token.
  */
 export async function fetchLineToken({
   code,
   channelId,
   channelSecret,
   redirectUri,
+  codeVerifier,
+  baseUrl = DEFAULT_LINE_API_BASE_URL,
+  log = logger,
 }: {
   code: string;
   channelId: string;
   channelSecret: string;
   redirectUri: string;
-}): Promise<[string, null] | [null, Response]> {
-  const resp = await fetch("https://api.line.me/oauth2/v2.1/token", {
+  codeVerifier: string;
+  baseUrl?: string;
+  log?: Logger;
+}): Promise<[LineTokenSet & { idToken: string }, null] | [null, Response]> {
+  const resp = await fetch(`${baseUrl}/oauth2/v2.1/token`, {
     method: "POST",
     headers: { "Content-Type": "application/x-www-form-urlencoded" },
     body: new URLSearchParams({
@@ -54,37 +106,84 @@ export async function fetchLineToken({
       redirect_uri: redirectUri,
       client_id: channelId,
       client_secret: channelSecret,
+      code_verifier: codeVerifier,
     }).toString(),
   });
 
   if (!resp.ok) {
-    const text = await resp.text();
-    console.error("LINE token exchange failed:", text);
+    log.error("LINE token exchange failed", { status: resp.status, body: await resp.text() });
     return [null, new Response("Failed to exchange LINE authorization code", { status: 500 })];
   }
 
-  const body = (await resp.json()) as { access_token?: string };
+  const body = (await resp.json()) as LineTokenResponse;
   if (!body.access_token) {
     return [null, new Response("Missing access token from LINE", { status: 500 })];
   }
+  if (!body.id_token) {
+    return [null, new Response("Missing ID token from LINE", { status: 500 })];
+  }
+
+  return [{ ...toLineTokenSet(body, body.access_token), idToken: body.id_token }, null];
+}
+
+/**
+ * Gets a new LINE access token with a refresh token (valid for up to 90 days).
+ * Returns null if LINE rejects it; the user then has to log in again.
+ */
+export async function refreshLineToken({
+  refreshToken,
+  channelId,
+  channelSecret,
+  baseUrl = DEFAULT_LINE_API_BASE_URL,
+  log = logger,
+}: {
+  refreshToken: string;
+  channelId: string;
+  channelSecret: string;
+  baseUrl?: string;
+  log?: Logger;
+}): Promise<LineTokenSet | null> {
+  const resp = await fetch(`${baseUrl}/oauth2/v2.1/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "refresh_token",
+      refresh_token: refreshToken,
+      client_id: channelId,
+      client_secret: channelSecret,
+    }).toString(),
+  });
+
+  if (!resp.ok) {
+    log.error("LINE token refresh failed", { status: resp.status, body: await resp.text() });
+    return null;
+  }
+
+  const body = (await resp.json()) as LineTokenResponse;
+  if (!body.access_token) return null;
 
-  return [body.access_token, null];
+  // LINE may omit refresh_token when it is unchanged
+  return toLineTokenSet({ refresh_token: refreshToken, ...body }, body.access_token);
 }
 
 /**
  * Fetches the LINE user profile using an access token.
  */
-export async function fetchLineProfile(accessToken: string): Promise<{
+export async function fetchLineProfile(
+  accessToken: string,
+  baseUrl = DEFAULT_LINE_API_BASE_URL,
+  log: Logger = logger,
+): Promise<{
   userId: string;
   displayName: string;
   pictureUrl?: string;
 } | null> {
-  const resp = await fetch("https://api.line.me/v2/profile", {
+  const resp = await fetch(`${baseUrl}/v2/profile`, {
     headers: { Authorization: `Bearer ${accessToken}` },
   });
 
   if (!resp.ok) {
-    console.error("LINE profile fetch failed:", await resp.text());
+    log.error("LINE profile fetch failed", { status: resp.status, body: await resp.text() });
     return null;
   }
 
@@ -94,3 +193,98 @@ export async function fetchLineProfile(accessToken: string): Promise<{
     pictureUrl?: string;
   }>;
 }
+
+/**
+ * Verifies a LINE Login ID token: signature, iss, aud, exp and nonce.
+ *
+ * Web login tokens are HS256-signed with the channel secret; tokens from the
+ * LINE SDKs are ES256-signed with a key from LINE's JWKS endpoint.
+ * Pass `jwks` to verify against local keys instead of fetching them from `apiBaseUrl`.
+ */
+export async function verifyLineIdToken(
+  idToken: string,
+  {
+    channelId,
+    channelSecret,
+    nonce,
+    jwks,
+    apiBaseUrl = DEFAULT_LINE_API_BASE_URL,
+    log = logger,
+  }: {
+    channelId: string;
+    channelSecret: string;
+    nonce: string;
+    jwks?: JsonWebKey[];
+    apiBaseUrl?: string;
+    log?: Logger;
+  },
+): Promise<LineIdTokenClaims | null> {
+  const decoded = decodeJwt<LineIdTokenClaims>(idToken);
+  if (!decoded) {
+    log.error("LINE ID token is malformed");
+    return null;
+  }
+
+  const { header, payload: claims, signingInput, signature } = decoded;
+
+  let valid = false;
+  if (header.alg === "HS256") {
+    valid = await verifyHs256(signingInput, signature, channelSecret);
+  } else if (header.alg === "ES256") {
+    const keys = jwks ?? (await fetchLineJwks(apiBaseUrl, log));
+    const jwk = keys.find((k) => (k as JsonWebKey & { kid?: string }).kid === header.kid);
+    valid = jwk ? await verifyEs256(signingInput, signature, jwk) : false;
+  }
+  if (!valid) {
+    log.error("LINE ID token signature invalid", { alg: header.alg });
+    return null;
+  }
+
+  if (claims.iss !== LINE_ISSUER) {
+    log.error("LINE ID token issuer mismatch", { iss: claims.iss });
+    return null;
+  }
+  if (claims.aud !== channelId) {
+    log.error("LINE ID token audience mismatch", { aud: claims.aud });
+    return null;
+  }
+  if (typeof claims.exp !== "number" || claims.exp <= Math.floor(Date.now() / 1000)) {
+    log.error("LINE ID token expired");
+    return null;
+  }
+  if (claims.nonce !== nonce) {
+    log.error("LINE ID token nonce mismatch");
+    return null;
+  }
+  if (!claims.sub) {
+    log.error("LINE ID token has no subject");
+    return null;
+  }
+
+  return claims;
+}
+
+async function fetchLineJwks(baseUrl: string, log: Logger): Promise<JsonWebKey[]> {
+  const resp = await fetch(`${baseUrl}/oauth2/v2.1/certs`);
+  if (!resp.ok) {
+    log.error("LINE JWKS fetch failed", { status: resp.status, body: await resp.text() });
+    return [];
+  }
+  const body = (await resp.json()) as { keys?: JsonWebKey[] };
+  return body.keys ?? [];
+}
+
+type LineTokenResponse = {
+  access_token?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  id_token?: string;
+};
+
+function toLineTokenSet(body: LineTokenResponse, accessToken: string): LineTokenSet {
+  return {
+    accessToken,
+    refreshToken: body.refresh_token,
+    expiresAt: body.expires_in ? Math.floor(Date.now() / 1000) + body.expires_in : undefined,
+  };
+}
@@ -4,6 +4,11 @@
  */
 
 import type { AuthRequest } from "@cloudflare/workers-oauth-provider";
+import { openCookieValue, sealCookieValue, type CookieKeys } from "./cookie-keys";
+import { base64UrlEncode } from "./jwt";
+import type { IdentityProviderId } from "./identity-providers";
+import type { LineProfile } from "./provisioning";
+import type { LineTokenSet } from "./utils";
 
 // ── CSRF Protection ──
 
@@ -16,15 +21,32 @@ export function generateCSRFProtection(): {
   return { token, setCookie };
 }
 
+// RFC 6749 §4.1.2.1 error codes sent back to MCP clients
+export type OAuthErrorCode = "invalid_request" | "access_denied" | "server_error" | "temporarily_unavailable";
+
 export class OAuthError extends Error {
   constructor(
     public statusCode: number,
     message: string,
+    public code: OAuthErrorCode = statusCode >= 500 ? "server_error" : "invalid_request",
   ) {
     super(message);
   }
+
+  /** Error page for the browser, when there is no client to send the error back to */
   toResponse() {
-    return new Response(this.message, { status: this.statusCode });
+    return renderErrorPage(this);
+  }
+
+  /** Error redirect to the client; only use with a redirect URI registered for the client */
+  toRedirect(oauthReqInfo: AuthRequest) {
+    const url = new URL(oauthReqInfo.redirectUri);
+    url.searchParams.set("error", this.code);
+    url.searchParams.set("error_description", this.message);
+    if (oauthReqInfo.state) {
+      url.searchParams.set("state", oauthReqInfo.state);
+    }
+    return new Response(null, { status: 302, headers: { Location: url.href } });
   }
 }
 
@@ -43,18 +65,39 @@ export function validateCSRFToken(formData: FormData, request: Request) {
 
 // ── OAuth State Management (KV-based) ──
 
+// Stored in KV under oauth_state:{stateToken}
+// oauthReqInfo is null when the login is for the account page, not an MCP client.
+// linkTo is set when the account page of that LINE user links another identity.
+// requestId carries the request ID of the flow to /callback (see logger.ts).
+type StoredOAuthState = {
+  oauthReqInfo: AuthRequest | null;
+  nonce: string;
+  codeVerifier: string;
+  provider?: IdentityProviderId; // Absent in states created before providers existed ("line")
+  linkTo?: string;
+  requestId?: string;
+};
+
 export async function createOAuthState(
-  oauthReqInfo: AuthRequest,
-  kv: KVNamespace,
+  oauthReqInfo: AuthRequest | null,
+  kv: OAuthKVNamespace,
+  {
+    provider = "line",
+    linkTo,
+    requestId,
+  }: { provider?: IdentityProviderId; linkTo?: string; requestId?: string } = {},
   ttl = 600,
-): Promise<{ stateToken: string }> {
+): Promise<{ stateToken: string; nonce: string; codeChallenge: string }> {
   const stateToken = crypto.randomUUID();
+  const nonce = crypto.randomUUID();
+  const { codeVerifier, codeChallenge } = await generatePKCE();
+  const stored: StoredOAuthState = { oauthReqInfo, nonce, codeVerifier, provider, linkTo, requestId };
   await kv.put(
     `oauth_state:${stateToken}`,
-    JSON.stringify(oauthReqInfo),
+    JSON.stringify(stored),
     { expirationTtl: ttl },
   );
-  return { stateToken };
+  return { stateToken, nonce, codeChallenge };
 }
 
 export async function bindStateToSession(stateToken: string): Promise<{
@@ -67,8 +110,16 @@ export async function bindStateToSession(stateToken: string): Promise<{
 
 export async function validateOAuthState(
   request: Request,
-  kv: KVNamespace,
-): Promise<{ oauthReqInfo: AuthRequest; clearCookie: string }> {
+  kv: OAuthKVNamespace,
+): Promise<{
+  oauthReqInfo: AuthRequest | null;
+  nonce: string;
+  codeVerifier: string;
+  provider: IdentityProviderId;
+  linkTo?: string;
+  requestId?: string;
+  clearCookie: string;
+}> {
   const url = new URL(request.url);
   const stateToken = url.searchParams.get("state");
   if (!stateToken) {
@@ -96,76 +147,221 @@ export async function validateOAuthState(
 
   const clearCookie = `__Host-session=; HttpOnly; Secure; SameSite=Lax; Path=/; Max-Age=0`;
 
+  const { oauthReqInfo, nonce, codeVerifier, provider = "line", linkTo, requestId } = JSON.parse(
+    stored,
+  ) as StoredOAuthState;
+
   return {
-    oauthReqInfo: JSON.parse(stored) as AuthRequest,
+    oauthReqInfo,
+    nonce,
+    codeVerifier,
+    provider,
+    linkTo,
+    requestId,
     clearCookie,
   };
 }
 
-// ── Client Approval (cookie-based) ──
+// ── Onboarding State (KV-based) ──
 
-export async function isClientApproved(
-  request: Request,
-  clientId: string,
-  secret: string,
-): Promise<boolean> {
-  const approved = await getApprovedClientsFromCookie(request, secret);
-  return approved.includes(clientId);
+// Stored in KV under onboarding:{token} while a first-time user is on the onboarding page
+export type OnboardingState = {
+  oauthReqInfo: AuthRequest;
+  profile: LineProfile;
+  lineTokens?: LineTokenSet;
+  requestId?: string;
+};
+
+export async function createOnboardingState(
+  state: OnboardingState,
+  kv: OAuthKVNamespace,
+  ttl = 600,
+): Promise<string> {
+  const token = crypto.randomUUID();
+  await kv.put(`onboarding:${token}`, JSON.stringify(state), { expirationTtl: ttl });
+  return token;
 }
 
-export async function addApprovedClient(
-  request: Request,
-  clientId: string,
-  secret: string,
+/**
+ * Returns and deletes the onboarding state, so each onboarding page can be submitted once.
+ */
+export async function consumeOnboardingState(token: string, kv: OAuthKVNamespace): Promise<OnboardingState> {
+  const stored = await kv.get(`onboarding:${token}`);
+  if (!stored) {
+    throw new OAuthError(400, "Invalid or expired onboarding session");
+  }
+  await kv.delete(`onboarding:${token}`);
+  return JSON.parse(stored) as OnboardingState;
+}
+
+// ── Consent Request State (KV-based) ──
+
+// Stored in KV under consent_request:{token} while a signed-in user is on the approval dialog
+export type ConsentRequestState = {
+  oauthReqInfo: AuthRequest;
+  profile: LineProfile;
+  supabaseUserId: string;
+  provider: IdentityProviderId;
+  lineTokens?: LineTokenSet;
+  requestId?: string;
+};
+
+export async function createConsentRequestState(
+  state: ConsentRequestState,
+  kv: OAuthKVNamespace,
+  ttl = 600,
 ): Promise<string> {
-  const approved = await getApprovedClientsFromCookie(request, secret);
-  if (!approved.includes(clientId)) {
-    approved.push(clientId);
+  const token = crypto.randomUUID();
+  await kv.put(`consent_request:${token}`, JSON.stringify(state), { expirationTtl: ttl });
+  return token;
+}
+
+/**
+ * Returns and deletes the consent request, so each approval dialog can be submitted once.
+ */
+export async function consumeConsentRequestState(token: string, kv: OAuthKVNamespace): Promise<ConsentRequestState> {
+  const stored = await kv.get(`consent_request:${token}`);
+  if (!stored) {
+    throw new OAuthError(400, "Invalid or expired authorization session");
   }
-  const data = JSON.stringify(approved);
-  const signature = await signData(data, secret);
-  const value = `${data}|${signature}`;
-  return `__Host-approved=${encodeURIComponent(value)}; HttpOnly; Secure; SameSite=Lax; Path=/; Max-Age=31536000`;
+  await kv.delete(`consent_request:${token}`);
+  return JSON.parse(stored) as ConsentRequestState;
 }
 
-async function getApprovedClientsFromCookie(
-  request: Request,
-  secret: string,
-): Promise<string[]> {
-  const cookies = parseCookies(request.headers.get("Cookie") || "");
-  const raw = cookies["__Host-approved"];
-  if (!raw) return [];
+// ── Account Session (cookie-based) ──
 
-  const decoded = decodeURIComponent(raw);
-  const pipeIdx = decoded.lastIndexOf("|");
-  if (pipeIdx === -1) return [];
+export type AccountSession = {
+  lineUserId: string;
+  displayName: string;
+  supabaseUserId?: string; // Absent when the LINE user has no account (linking is unavailable)
+  tenantId?: string; // Tenant the session was issued for; path-prefixed tenants share the cookie
+  exp: number; // Unix seconds
+};
 
-  const data = decoded.slice(0, pipeIdx);
-  const signature = decoded.slice(pipeIdx + 1);
+export async function createAccountSession(
+  session: Omit<AccountSession, "exp">,
+  keys: CookieKeys,
+  ttl = 900,
+): Promise<string> {
+  const data = JSON.stringify({ ...session, exp: Math.floor(Date.now() / 1000) + ttl });
+  const value = await sealCookieValue(data, keys);
+  return `__Host-account=${encodeURIComponent(value)}; HttpOnly; Secure; SameSite=Lax; Path=/; Max-Age=${ttl}`;
+}
+
+export async function getAccountSession(
+  request: Request,
+  keys: CookieKeys,
+  tenantId?: string,
+): Promise<AccountSession | null> {
+  const cookies = parseCookies(request.headers.get("Cookie") || "");
+  const raw = cookies["__Host-account"];
+  if (!raw) return null;
 
-  if (!(await verifySignature(data, signature, secret))) return [];
+  const data = await openCookieValue(decodeURIComponent(raw), keys);
+  if (data === null) return null;
 
   try {
-    return JSON.parse(data);
+    const session = JSON.parse(data) as AccountSession;
+    return session.exp > Date.now() / 1000 && session.tenantId === tenantId ? session : null;
   } catch {
-    return [];
+    return null;
   }
 }
 
+// ── Login Page ──
+
+// Provider choice shown before login when more than one login provider is configured
+export function renderLoginPage(
+  request: Request,
+  options: {
+    client: { clientName?: string; clientId?: string } | null;
+    csrfToken: string;
+    server: { name: string; description: string; logo?: string };
+    basePath?: string; // Prefix of the form actions for path-prefixed tenants
+    providers: { id: IdentityProviderId; label: string }[];
+    setCookie: string;
+    state: { oauthReqInfo: AuthRequest; requestId?: string };
+  },
+): Response {
+  const clientName = options.client?.clientName || options.client?.clientId || "Unknown Client";
+  const encodedState = btoa(JSON.stringify(options.state));
+
+  const html = `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>CookForYou - ログイン</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, sans-serif; display: flex; justify-content: center; align-items: center; min-height: 100vh; margin: 0; background: #f5f5f5; }
+    .card { background: white; border-radius: 12px; padding: 2rem; max-width: 400px; width: 90%; box-shadow: 0 2px 10px rgba(0,0,0,0.1); text-align: center; }
+    .logo { width: 64px; height: 64px; border-radius: 12px; margin-bottom: 1rem; }
+    h1 { font-size: 1.25rem; margin: 0.5rem 0; }
+    p { color: #666; font-size: 0.9rem; }
+    .client { font-weight: 600; color: #333; }
+    button { background: #06C755; color: white; border: none; padding: 12px 32px; border-radius: 8px; font-size: 1rem; cursor: pointer; margin-top: 1rem; width: 100%; }
+    button:hover { background: #05a847; }
+    button.alt { background: #333; margin-top: 0.5rem; }
+    button.alt:hover { background: #111; }
+    button.deny { background: white; color: #666; border: 1px solid #ccc; margin-top: 0.5rem; }
+    button.deny:hover { background: #f5f5f5; }
+  </style>
+</head>
+<body>
+  <div class="card">
+    ${options.server.logo ? `<img src="${sanitizeUrl(options.server.logo)}" class="logo" alt="logo">` : ""}
+    <h1>${sanitizeText(options.server.name)}</h1>
+    <p>${sanitizeText(options.server.description)}</p>
+    <p><span class="client">${sanitizeText(clientName)}</span> と連携するには、ログインしてください。</p>
+    <form method="POST" action="${options.basePath ?? ""}/authorize">
+      <input type="hidden" name="csrf_token" value="${options.csrfToken}">
+      <input type="hidden" name="state" value="${encodedState}">
+      ${options.providers
+        .map((provider) =>
+          `<button type="submit" name="provider" value="${provider.id}"${provider.id === "line" ? "" : ' class="alt"'}>${sanitizeText(provider.label)}でログイン</button>`)
+        .join("\n      ")}
+      <button type="submit" name="action" value="deny" class="deny">キャンセル</button>
+    </form>
+  </div>
+</body>
+</html>`;
+
+  return new Response(html, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Set-Cookie": options.setCookie,
+    },
+  });
+}
+
 // ── Approval Dialog ──
 
+// Shown after login when the user has not yet approved every scope the client asks for
 export function renderApprovalDialog(
   request: Request,
   options: {
     client: { clientName?: string; clientId?: string } | null;
     csrfToken: string;
     server: { name: string; description: string; logo?: string };
+    basePath?: string;
+    scopes: { name: string; description: string }[];
+    displayName: string;
+    consentToken: string;
     setCookie: string;
-    state: { oauthReqInfo: AuthRequest };
   },
 ): Response {
   const clientName = options.client?.clientName || options.client?.clientId || "Unknown Client";
-  const encodedState = btoa(JSON.stringify(options.state));
+
+  const scopeList = options.scopes.length > 0
+    ? `<fieldset class="scopes">
+        <legend>許可する権限</legend>
+        ${options.scopes
+          .map((scope) =>
+            `<label><input type="checkbox" name="scope" value="${sanitizeText(scope.name)}" checked> ${sanitizeText(scope.description)}</label>`)
+          .join("\n        ")}
+      </fieldset>`
+    : "";
 
   const html = `<!DOCTYPE html>
 <html lang="ja">
@@ -182,6 +378,11 @@ export function renderApprovalDialog(
     .client { font-weight: 600; color: #333; }
     button { background: #06C755; color: white; border: none; padding: 12px 32px; border-radius: 8px; font-size: 1rem; cursor: pointer; margin-top: 1rem; width: 100%; }
     button:hover { background: #05a847; }
+    button.deny { background: white; color: #666; border: 1px solid #ccc; margin-top: 0.5rem; }
+    button.deny:hover { background: #f5f5f5; }
+    .scopes { text-align: left; margin: 1rem 0 0; padding: 0; border: none; }
+    .scopes legend { font-size: 0.9rem; font-weight: 600; color: #333; margin-bottom: 0.5rem; }
+    .scopes label { display: flex; align-items: center; gap: 0.5rem; font-size: 0.9rem; color: #333; padding: 0.25rem 0; }
   </style>
 </head>
 <body>
@@ -189,11 +390,172 @@ export function renderApprovalDialog(
     ${options.server.logo ? `<img src="${sanitizeUrl(options.server.logo)}" class="logo" alt="logo">` : ""}
     <h1>${sanitizeText(options.server.name)}</h1>
     <p>${sanitizeText(options.server.description)}</p>
-    <p><span class="client">${sanitizeText(clientName)}</span> があなたのレシピデータへのアクセスを要求しています。</p>
-    <form method="POST" action="/authorize">
+    <p><span class="client">${sanitizeText(clientName)}</span> が ${sanitizeText(options.displayName)} さんのレシピデータへのアクセスを要求しています。</p>
+    <form method="POST" action="${options.basePath ?? ""}/consent">
       <input type="hidden" name="csrf_token" value="${options.csrfToken}">
-      <input type="hidden" name="state" value="${encodedState}">
-      <button type="submit">LINEでログインして許可</button>
+      <input type="hidden" name="consent_token" value="${options.consentToken}">
+      ${scopeList}
+      <button type="submit">許可する</button>
+      <button type="submit" name="action" value="deny" class="deny">拒否する</button>
+    </form>
+  </div>
+</body>
+</html>`;
+
+  return new Response(html, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Set-Cookie": options.setCookie,
+    },
+  });
+}
+
+// ── Account Page ──
+
+export function renderAccountPage(options: {
+  basePath?: string;
+  displayName: string;
+  grants: { id: string; clientName: string; scopes: string[]; createdAt: number; consentExpiresAt?: number }[];
+  // Omitted when identity linking is unavailable
+  identities?: {
+    linked: { provider: IdentityProviderId; label: string; subject: string; createdAt: string }[];
+    linkable: { id: IdentityProviderId; label: string }[];
+  };
+  csrfToken: string;
+  setCookie: string;
+}): Response {
+  const rows = options.grants
+    .map((grant) => `<li class="grant">
+        <div>
+          <div class="client">${sanitizeText(grant.clientName)}</div>
+          <div class="meta">${sanitizeText(grant.scopes.join(", ") || "(スコープなし)")}</div>
+          <div class="meta">${new Date(grant.createdAt * 1000).toISOString().slice(0, 10)} に許可</div>
+          ${grant.consentExpiresAt ? `<div class="meta">${new Date(grant.consentExpiresAt).toISOString().slice(0, 10)} まで再確認なし</div>` : ""}
+        </div>
+        <form method="POST" action="${options.basePath ?? ""}/account/revoke">
+          <input type="hidden" name="csrf_token" value="${options.csrfToken}">
+          <input type="hidden" name="grant_id" value="${sanitizeText(grant.id)}">
+          <button type="submit">取り消す</button>
+        </form>
+      </li>`)
+    .join("\n      ");
+
+  const identities = options.identities;
+  const identitySection = identities
+    ? `<h2>ログイン方法</h2>
+    <ul>
+      ${identities.linked
+        .map((identity) => `<li class="grant">
+        <div>
+          <div class="client">${sanitizeText(identity.label)}</div>
+          <div class="meta">${sanitizeText(identity.subject)}</div>
+        </div>
+        ${identity.provider === "line" ? "" : `<form method="POST" action="${options.basePath ?? ""}/account/unlink">
+          <input type="hidden" name="csrf_token" value="${options.csrfToken}">
+          <input type="hidden" name="provider" value="${identity.provider}">
+          <input type="hidden" name="subject" value="${sanitizeText(identity.subject)}">
+          <button type="submit">解除</button>
+        </form>`}
+      </li>`)
+        .join("\n      ")}
+    </ul>
+    ${identities.linkable
+      .map((provider) => `<form method="POST" action="${options.basePath ?? ""}/account/link">
+      <input type="hidden" name="csrf_token" value="${options.csrfToken}">
+      <input type="hidden" name="provider" value="${provider.id}">
+      <button type="submit" class="link">${sanitizeText(provider.label)} を連携する</button>
+    </form>`)
+      .join("\n    ")}`
+    : "";
+
+  const html = `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>連携中のアプリ</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, sans-serif; display: flex; justify-content: center; margin: 0; padding: 2rem 0; background: #f5f5f5; }
+    .card { background: white; border-radius: 12px; padding: 2rem; max-width: 480px; width: 90%; box-shadow: 0 2px 10px rgba(0,0,0,0.1); }
+    h1 { font-size: 1.25rem; margin: 0 0 0.5rem; }
+    p { color: #666; font-size: 0.9rem; }
+    ul { list-style: none; padding: 0; margin: 0; }
+    .grant { display: flex; justify-content: space-between; align-items: center; gap: 1rem; padding: 0.75rem 0; border-top: 1px solid #eee; }
+    .client { font-weight: 600; color: #333; }
+    .meta { color: #888; font-size: 0.8rem; }
+    button { background: white; color: #d33; border: 1px solid #d33; padding: 6px 12px; border-radius: 8px; font-size: 0.85rem; cursor: pointer; }
+    button:hover { background: #fff0f0; }
+    h2 { font-size: 1rem; margin: 1.5rem 0 0.5rem; }
+    button.link { color: #06C755; border-color: #06C755; margin-top: 0.75rem; }
+    button.link:hover { background: #f0fff5; }
+  </style>
+</head>
+<body>
+  <div class="card">
+    <h1>連携中のアプリ</h1>
+    <p>${sanitizeText(options.displayName)} さんの LINE アカウントでアクセスを許可したアプリです。</p>
+    ${options.grants.length > 0 ? `<ul>
+      ${rows}
+    </ul>` : "<p>連携中のアプリはありません。</p>"}
+    ${identitySection}
+  </div>
+</body>
+</html>`;
+
+  return new Response(html, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Set-Cookie": options.setCookie,
+    },
+  });
+}
+
+// ── Onboarding Page ──
+
+export function renderOnboardingPage(options: {
+  profile: LineProfile;
+  clientName: string;
+  server: { name: string; description: string; logo?: string };
+  basePath?: string;
+  csrfToken: string;
+  onboardingToken: string;
+  setCookie: string;
+}): Response {
+  const html = `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>CookForYou - アカウント作成</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, sans-serif; display: flex; justify-content: center; align-items: center; min-height: 100vh; margin: 0; background: #f5f5f5; }
+    .card { background: white; border-radius: 12px; padding: 2rem; max-width: 400px; width: 90%; box-shadow: 0 2px 10px rgba(0,0,0,0.1); text-align: center; }
+    .logo { width: 64px; height: 64px; border-radius: 12px; margin-bottom: 1rem; }
+    .avatar { width: 56px; height: 56px; border-radius: 50%; }
+    h1 { font-size: 1.25rem; margin: 0.5rem 0; }
+    p { color: #666; font-size: 0.9rem; }
+    .client { font-weight: 600; color: #333; }
+    button { background: #06C755; color: white; border: none; padding: 12px 32px; border-radius: 8px; font-size: 1rem; cursor: pointer; margin-top: 1rem; width: 100%; }
+    button:hover { background: #05a847; }
+    button.deny { background: white; color: #666; border: 1px solid #ccc; margin-top: 0.5rem; }
+    button.deny:hover { background: #f5f5f5; }
+  </style>
+</head>
+<body>
+  <div class="card">
+    ${options.server.logo ? `<img src="${sanitizeUrl(options.server.logo)}" class="logo" alt="logo">` : ""}
+    <h1>${sanitizeText(options.server.name)} のアカウントを作成</h1>
+    <p>${sanitizeText(options.server.description)}</p>
+    ${options.profile.pictureUrl ? `<img src="${sanitizeUrl(options.profile.pictureUrl)}" class="avatar" alt="">` : ""}
+    <p>${sanitizeText(options.profile.displayName)} さんの LINE アカウントで登録されたアカウントが見つかりませんでした。</p>
+    <p>LINE の表示名とプロフィール画像を使ってアカウントを作成し、<span class="client">${sanitizeText(options.clientName)}</span> との連携を続けます。</p>
+    <form method="POST" action="${options.basePath ?? ""}/onboarding">
+      <input type="hidden" name="csrf_token" value="${options.csrfToken}">
+      <input type="hidden" name="onboarding_token" value="${options.onboardingToken}">
+      <button type="submit">同意してアカウントを作成</button>
+      <button type="submit" name="action" value="cancel" class="deny">キャンセル</button>
     </form>
   </div>
 </body>
@@ -208,6 +570,46 @@ export function renderApprovalDialog(
   });
 }
 
+// ── Error Page ──
+
+const ERROR_TITLES: Record<OAuthErrorCode, string> = {
+  invalid_request: "リクエストが正しくありません",
+  access_denied: "アクセスが拒否されました",
+  server_error: "エラーが発生しました",
+  temporarily_unavailable: "一時的に利用できません",
+};
+
+export function renderErrorPage(error: OAuthError): Response {
+  const html = `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>CookForYou - エラー</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, sans-serif; display: flex; justify-content: center; align-items: center; min-height: 100vh; margin: 0; background: #f5f5f5; }
+    .card { background: white; border-radius: 12px; padding: 2rem; max-width: 400px; width: 90%; box-shadow: 0 2px 10px rgba(0,0,0,0.1); text-align: center; }
+    h1 { font-size: 1.25rem; margin: 0.5rem 0; }
+    p { color: #666; font-size: 0.9rem; }
+    .code { color: #aaa; font-size: 0.8rem; font-family: monospace; }
+  </style>
+</head>
+<body>
+  <div class="card">
+    <h1>${ERROR_TITLES[error.code]}</h1>
+    <p>${sanitizeText(error.message)}</p>
+    <p>お手数ですが、MCP クライアントからもう一度接続してください。</p>
+    <p class="code">${error.code} (${error.statusCode})</p>
+  </div>
+</body>
+</html>`;
+
+  return new Response(html, {
+    status: error.statusCode,
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
+
 // ── Helpers ──
 
 function parseCookies(cookieHeader: string): Record<string, string> {
@@ -227,27 +629,11 @@ async function sha256(data: string): Promise<string> {
     .join("");
 }
 
-async function importKey(secret: string): Promise<CryptoKey> {
-  return crypto.subtle.importKey(
-    "raw",
-    new TextEncoder().encode(secret),
-    { name: "HMAC", hash: "SHA-256" },
-    false,
-    ["sign", "verify"],
-  );
-}
-
-async function signData(data: string, secret: string): Promise<string> {
-  const key = await importKey(secret);
-  const sig = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(data));
-  return Array.from(new Uint8Array(sig))
-    .map((b) => b.toString(16).padStart(2, "0"))
-    .join("");
-}
-
-async function verifySignature(data: string, signature: string, secret: string): Promise<boolean> {
-  const expected = await signData(data, secret);
-  return expected === signature;
+// PKCE (RFC 7636) S256 pair for the upstream LINE Login request
+async function generatePKCE(): Promise<{ codeVerifier: string; codeChallenge: string }> {
+  const codeVerifier = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(codeVerifier));
+  return { codeVerifier, codeChallenge: base64UrlEncode(new Uint8Array(digest)) };
 }
 
 function sanitizeText(text: string): string {
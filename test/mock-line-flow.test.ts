@@ -0,0 +1,271 @@
+/**
+ * The MCP authorization flow against the mock LINE provider (mock-line.ts):
+ * /authorize → /__mock-line → /callback → approval dialog → /consent.
+ *
+ * The LINE handler runs as-is; fetches to the mock go back into it, Supabase's
+ * password sign-in is answered here, and the OAuth provider and user objects are fakes.
+ */
+
+import type { CompleteAuthorizationOptions, OAuthHelpers } from "@cloudflare/workers-oauth-provider";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LineHandler } from "../src/line-handler";
+
+const ORIGIN = "http://localhost:8788";
+const SUPABASE_URL = "https://project.supabase.test";
+const CLIENT_ID = "mcp-client";
+const CLIENT_REDIRECT_URI = "http://localhost:6274/oauth/callback";
+const LINE_USER_ID = "U00000000000000000000000000000001";
+const SUPABASE_USER_ID = "8f14e45f-ceea-467f-a0e6-2f8e0f5a8b1c";
+
+type FlowEnv = Env & { OAUTH_PROVIDER: OAuthHelpers };
+
+// ── Fakes ──
+
+// An OAuthKVNamespace in memory; entries never expire
+function createMemoryKv() {
+  const entries = new Map<string, { value: string; metadata?: unknown }>();
+  return {
+    entries,
+    async get(key: string, type?: "text" | "json" | { type?: string }) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      const asJson = type === "json" || (typeof type === "object" && type.type === "json");
+      return asJson ? JSON.parse(entry.value) : entry.value;
+    },
+    async put(key: string, value: string, options?: { metadata?: unknown }) {
+      entries.set(key, { value, metadata: options?.metadata });
+    },
+    async delete(key: string) {
+      entries.delete(key);
+    },
+    async list({ prefix = "" }: { prefix?: string } = {}) {
+      const keys = [...entries]
+        .filter(([name]) => name.startsWith(prefix))
+        .map(([name, { metadata }]) => ({ name, metadata }));
+      return { keys, list_complete: true, cacheStatus: null };
+    },
+  };
+}
+
+function createOAuthProvider(completed: CompleteAuthorizationOptions[]) {
+  const provider: Partial<OAuthHelpers> = {
+    async parseAuthRequest(request) {
+      const params = new URL(request.url).searchParams;
+      return {
+        responseType: params.get("response_type") ?? "",
+        clientId: params.get("client_id") ?? "",
+        redirectUri: params.get("redirect_uri") ?? "",
+        scope: (params.get("scope") ?? "").split(" ").filter(Boolean),
+        state: params.get("state") ?? "",
+        codeChallenge: params.get("code_challenge") ?? undefined,
+        codeChallengeMethod: params.get("code_challenge_method") ?? undefined,
+      };
+    },
+    async lookupClient(clientId) {
+      return clientId === CLIENT_ID
+        ? {
+            clientId,
+            clientName: "Test Client",
+            redirectUris: [CLIENT_REDIRECT_URI],
+            tokenEndpointAuthMethod: "none",
+          }
+        : null;
+    },
+    async completeAuthorization(options) {
+      completed.push(options);
+      const redirect = new URL(options.request.redirectUri);
+      redirect.searchParams.set("code", "mcp-code");
+      redirect.searchParams.set("state", options.request.state);
+      return { redirectTo: redirect.href };
+    },
+  };
+  return provider as OAuthHelpers;
+}
+
+// User objects only have their identity reset at the end of the flow
+function createUserObjects() {
+  return {
+    idFromName: (name: string) => name,
+    get: () => ({ resetIdentity: async () => {} }),
+  };
+}
+
+// Supabase Auth's answer to signInWithPassword for the mock user
+function supabaseSession(): Response {
+  const now = Math.floor(Date.now() / 1000);
+  return Response.json({
+    access_token: "supabase-access-token",
+    token_type: "bearer",
+    expires_in: 3600,
+    expires_at: now + 3600,
+    refresh_token: "supabase-refresh-token",
+    user: {
+      id: SUPABASE_USER_ID,
+      aud: "authenticated",
+      role: "authenticated",
+      email: `${LINE_USER_ID}@line.com`,
+      app_metadata: {},
+      user_metadata: {},
+      created_at: new Date().toISOString(),
+    },
+  });
+}
+
+// ── Flow ──
+
+describe("mock LINE authorization flow", () => {
+  let env: FlowEnv;
+  let kv: ReturnType<typeof createMemoryKv>;
+  let completed: CompleteAuthorizationOptions[];
+  const ctx = { waitUntil() {}, passThroughOnException() {}, props: {} } as unknown as ExecutionContext;
+
+  const handle = (request: Request) => LineHandler.fetch(request, env, ctx);
+
+  beforeEach(() => {
+    kv = createMemoryKv();
+    completed = [];
+    env = {
+      OAUTH_KV: kv,
+      OAUTH_PROVIDER: createOAuthProvider(completed),
+      MCP_OBJECT: createUserObjects() as unknown as Env["MCP_OBJECT"],
+      LINE_CHANNEL_ID: "1234567890",
+      LINE_CHANNEL_SECRET: "mock-channel-secret",
+      LINE_AUTH_BASE_URL: `${ORIGIN}/__mock-line`,
+      LINE_API_BASE_URL: `${ORIGIN}/__mock-line`,
+      MOCK_LINE: "true",
+      MOCK_LINE_AUTO_LOGIN: LINE_USER_ID,
+      SUPABASE_URL,
+      SUPABASE_ANON_KEY: "anon-key",
+      AUTH_STRATEGY: "password",
+      COMMON_PASSWORD_PREFIX: "prefix-",
+      COOKIE_ENCRYPTION_KEY: "cookie-key",
+    } as FlowEnv;
+
+    vi.stubGlobal("fetch", async (input: RequestInfo | URL, init?: RequestInit) => {
+      const request = new Request(input, init);
+      if (request.url.startsWith(`${ORIGIN}/__mock-line/`)) {
+        return handle(request);
+      }
+      if (request.url.startsWith(`${SUPABASE_URL}/auth/v1/token?grant_type=password`)) {
+        return supabaseSession();
+      }
+      throw new Error(`Unexpected fetch: ${request.method} ${request.url}`);
+    });
+    // supabase-js looks for WebSocket (which Workers have) when creating a client; Node 20 has none
+    vi.stubGlobal("WebSocket", class {});
+    // The handler logs every step as JSON
+    for (const method of ["log", "warn", "error"] as const) {
+      vi.spyOn(console, method).mockImplementation(() => {});
+    }
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  // Runs /authorize and the mock's auto-login, and returns the /callback request to send
+  async function loginWithMockLine(): Promise<{ callback: Request; state: string }> {
+    const authorizeUrl = new URL(`${ORIGIN}/authorize`);
+    authorizeUrl.search = new URLSearchParams({
+      response_type: "code",
+      client_id: CLIENT_ID,
+      redirect_uri: CLIENT_REDIRECT_URI,
+      state: "client-state",
+      code_challenge: "client-challenge",
+      code_challenge_method: "S256",
+    }).toString();
+
+    const authorize = await handle(new Request(authorizeUrl));
+    expect(authorize.status).toBe(302);
+    const lineAuthorizeUrl = new URL(authorize.headers.get("Location")!);
+    expect(lineAuthorizeUrl.href.startsWith(`${ORIGIN}/__mock-line/oauth2/v2.1/authorize`)).toBe(true);
+    expect(lineAuthorizeUrl.searchParams.get("nonce")).toBeTruthy();
+    expect(lineAuthorizeUrl.searchParams.get("code_challenge_method")).toBe("S256");
+    const sessionCookie = authorize.headers.get("Set-Cookie")!.split(";")[0];
+
+    const mockLogin = await handle(new Request(lineAuthorizeUrl));
+    expect(mockLogin.status).toBe(302);
+    const callbackUrl = new URL(mockLogin.headers.get("Location")!);
+    expect(callbackUrl.href.startsWith(`${ORIGIN}/callback`)).toBe(true);
+    expect(callbackUrl.searchParams.get("code")).toBeTruthy();
+
+    return {
+      callback: new Request(callbackUrl, { headers: { Cookie: sessionCookie } }),
+      state: callbackUrl.searchParams.get("state")!,
+    };
+  }
+
+  // Replaces a field of the login's stored OAuth state, as if the request had been tampered with
+  async function tamperOAuthState(state: string, changes: Record<string, string>) {
+    const key = `oauth_state:${state}`;
+    const stored = JSON.parse(kv.entries.get(key)!.value);
+    await kv.put(key, JSON.stringify({ ...stored, ...changes }));
+  }
+
+  function clientRedirect(response: Response): URL {
+    expect(response.status).toBe(302);
+    const location = new URL(response.headers.get("Location")!);
+    expect(`${location.origin}${location.pathname}`).toBe(CLIENT_REDIRECT_URI);
+    return location;
+  }
+
+  it("issues the MCP token after LINE login and approval", async () => {
+    const { callback } = await loginWithMockLine();
+
+    const dialog = await handle(callback);
+    expect(dialog.status).toBe(200);
+    const html = await dialog.text();
+    const consentToken = html.match(/name="consent_token" value="([^"]+)"/)?.[1];
+    const csrfToken = html.match(/name="csrf_token" value="([^"]+)"/)?.[1];
+    expect(consentToken).toBeTruthy();
+    expect(csrfToken).toBeTruthy();
+
+    const consent = await handle(
+      new Request(`${ORIGIN}/consent`, {
+        method: "POST",
+        headers: { Cookie: `__Host-csrf=${csrfToken}` },
+        body: new URLSearchParams({ consent_token: consentToken!, csrf_token: csrfToken! }),
+      }),
+    );
+    const redirect = clientRedirect(consent);
+    expect(redirect.searchParams.get("code")).toBe("mcp-code");
+    expect(redirect.searchParams.get("state")).toBe("client-state");
+
+    expect(completed).toHaveLength(1);
+    expect(completed[0].userId).toBe(LINE_USER_ID);
+    expect(completed[0].props).toMatchObject({
+      lineUserId: LINE_USER_ID,
+      supabaseUserId: SUPABASE_USER_ID,
+      displayName: "テストユーザー1",
+      clientId: CLIENT_ID,
+      provider: "line",
+    });
+  });
+
+  it("rejects the login when the PKCE verifier does not match", async () => {
+    const { callback, state } = await loginWithMockLine();
+    await tamperOAuthState(state, { codeVerifier: "x".repeat(43) });
+
+    const redirect = clientRedirect(await handle(callback));
+    expect(redirect.searchParams.get("error")).toBe("server_error");
+    expect(completed).toHaveLength(0);
+  });
+
+  it("rejects the login when the ID token nonce does not match", async () => {
+    const { callback, state } = await loginWithMockLine();
+    await tamperOAuthState(state, { nonce: "other-nonce" });
+
+    const redirect = clientRedirect(await handle(callback));
+    expect(redirect.searchParams.get("error")).toBe("access_denied");
+    expect(completed).toHaveLength(0);
+  });
+
+  it("rejects a callback without the session cookie", async () => {
+    const { callback } = await loginWithMockLine();
+
+    const response = await handle(new Request(callback.url));
+    expect(response.status).toBe(400);
+    expect(completed).toHaveLength(0);
+  });
+});
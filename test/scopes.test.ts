@@ -0,0 +1,108 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import { missingScopes } from "../src/scopes";
+import { type AnyToolDefinition, defineTool, registerTools, type ToolMiddleware } from "../src/tools/registry";
+import { defineTableTools } from "../src/tools/table-tools";
+import type { Props } from "../src/utils";
+
+const recipeTools = defineTableTools({
+  table: "recipes",
+  ownerColumn: "user_id",
+  columns: { title: z.string() },
+  operations: ["list"],
+});
+
+const savePrompt = defineTool({
+  name: "save_prompt",
+  description: "Needs a scope that predates scope recording",
+  inputSchema: {},
+  scopes: ["prompts:write"],
+  async handler() {
+    return { content: [{ type: "text", text: "saved" }] };
+  },
+});
+
+// Connects a client to a server exposing `tools` to a user with the given grant
+async function connect(
+  tools: readonly AnyToolDefinition[],
+  scopes: string[] | undefined,
+  middlewares: ToolMiddleware[] = [],
+) {
+  const props: Props = { lineUserId: "U1", supabaseUserId: "user-1", displayName: "Test User", scopes };
+  // Answers every list query with no rows
+  const query = { select: () => query, eq: () => query, range: async () => ({ data: [], error: null }) };
+  const supabase = { from: () => query } as unknown as SupabaseClient;
+
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  const provider = {
+    getClient: async () => supabase,
+    getUserId: () => props.supabaseUserId,
+    getProps: () => props,
+    env: {} as Env,
+  };
+  registerTools(server, tools, provider, middlewares);
+
+  const client = new Client({ name: "test-client", version: "0.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+describe("grants issued before scopes were recorded", () => {
+  it("cannot call a generated table tool", async () => {
+    const client = await connect(recipeTools, undefined);
+
+    const result = await client.callTool({ name: "list_recipes", arguments: {} });
+    expect(result.isError).toBe(true);
+    expect(JSON.stringify(result.content)).toContain("Insufficient scope");
+  });
+
+  it("keep the scopes that existed before scope recording", async () => {
+    const client = await connect([savePrompt], undefined);
+
+    const result = await client.callTool({ name: "save_prompt", arguments: {} });
+    expect(result.isError).toBeFalsy();
+  });
+
+  it("are denied any scope outside the legacy set", () => {
+    expect(missingScopes(undefined, ["prompts:write"])).toEqual([]);
+    expect(missingScopes(undefined, ["recipes:read", "line:push", "audit:read"])).toEqual([
+      "recipes:read",
+      "line:push",
+      "audit:read",
+    ]);
+  });
+});
+
+describe("grants with scopes", () => {
+  it("can call a generated table tool with its read scope", async () => {
+    const client = await connect(recipeTools, ["recipes:read"]);
+
+    const result = await client.callTool({ name: "list_recipes", arguments: {} });
+    expect(result.isError).toBeFalsy();
+  });
+
+  it("cannot call a tool whose scope was not granted", async () => {
+    const client = await connect([savePrompt], []);
+
+    const result = await client.callTool({ name: "save_prompt", arguments: {} });
+    expect(result.isError).toBe(true);
+  });
+
+  it("are checked before the middlewares run", async () => {
+    const seen: string[] = [];
+    const record: ToolMiddleware = (call, next) => {
+      seen.push(call.tool.name);
+      return next();
+    };
+    const client = await connect([...recipeTools, savePrompt], ["recipes:read"], [record]);
+
+    expect((await client.callTool({ name: "save_prompt", arguments: {} })).isError).toBe(true);
+    expect((await client.callTool({ name: "list_recipes", arguments: {} })).isError).toBeFalsy();
+    expect(seen).toEqual(["list_recipes"]);
+  });
+});
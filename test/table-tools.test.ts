@@ -0,0 +1,162 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import type { AnyToolDefinition, ToolContext } from "../src/tools/registry";
+import { defineTableTools, type TableConfig } from "../src/tools/table-tools";
+
+const USER_ID = "8f14e45f-ceea-467f-a0e6-2f8e0f5a8b1c";
+
+const recipes: TableConfig = {
+  table: "recipes",
+  ownerColumn: "user_id",
+  columns: {
+    title: z.string().min(1),
+    memo: z.string().nullable(),
+  },
+  operations: ["list", "get", "create", "update", "delete"],
+};
+
+type QueryCall = [method: string, ...args: unknown[]];
+
+const BUILDER_METHODS = ["select", "insert", "update", "delete", "eq", "is", "order", "range", "single", "maybeSingle"];
+
+// A Supabase client whose queries record their builder calls and answer with `result`
+function createRecordingClient(result: { data: unknown; error: null }) {
+  const queries: QueryCall[][] = [];
+  const client = {
+    from(table: string) {
+      const calls: QueryCall[] = [["from", table]];
+      queries.push(calls);
+      const builder: Record<string, unknown> = {
+        then: (resolve: (value: typeof result) => unknown) => resolve(result),
+      };
+      for (const method of BUILDER_METHODS) {
+        builder[method] = (...args: unknown[]) => {
+          calls.push([method, ...args]);
+          return builder;
+        };
+      }
+      return builder;
+    },
+  };
+  return { client: client as unknown as SupabaseClient, queries };
+}
+
+function toolsByName(config: TableConfig): Record<string, AnyToolDefinition> {
+  return Object.fromEntries(defineTableTools(config).map((tool) => [tool.name, tool]));
+}
+
+// Runs a tool's handler with arguments parsed by its own input schema, as the server does
+async function call(tool: AnyToolDefinition, args: Record<string, unknown>, data: unknown = [{ id: 1 }]) {
+  const { client, queries } = createRecordingClient({ data, error: null });
+  const ctx = { client, userId: USER_ID, props: {}, env: {}, server: {} as McpServer } as ToolContext;
+  const result = await tool.handler(z.object(tool.inputSchema).parse(args), ctx);
+  return { result, queries };
+}
+
+describe("defineTableTools", () => {
+  it("generates the requested tools with their scopes", () => {
+    const tools = defineTableTools(recipes);
+    expect(tools.map((tool) => [tool.name, tool.scopes])).toEqual([
+      ["list_recipes", ["recipes:read"]],
+      ["get_recipes", ["recipes:read"]],
+      ["create_recipes", ["recipes:write"]],
+      ["update_recipes", ["recipes:write"]],
+      ["delete_recipes", ["recipes:write"]],
+    ]);
+  });
+
+  it("builds the input schemas from the columns", () => {
+    const tools = toolsByName(recipes);
+    expect(Object.keys(tools.list_recipes.inputSchema)).toEqual([
+      "title",
+      "memo",
+      "order_by",
+      "ascending",
+      "limit",
+      "offset",
+    ]);
+    expect(Object.keys(tools.get_recipes.inputSchema)).toEqual(["id"]);
+    expect(Object.keys(tools.create_recipes.inputSchema)).toEqual(["title", "memo"]);
+    expect(Object.keys(tools.update_recipes.inputSchema)).toEqual(["id", "title", "memo"]);
+    expect(Object.keys(tools.delete_recipes.inputSchema)).toEqual(["id"]);
+  });
+
+  it.each(["user_id", "id", "order_by", "ascending", "limit", "offset"])(
+    "rejects a column named %s",
+    (column) => {
+      const config = { ...recipes, columns: { ...recipes.columns, [column]: z.number() } };
+      expect(() => defineTableTools(config)).toThrow(`column "${column}" must not be listed`);
+    },
+  );
+
+  it("rejects a column named after a custom primary key", () => {
+    const config = { ...recipes, primaryKey: "recipe_id", columns: { recipe_id: z.string() } };
+    expect(() => defineTableTools(config)).toThrow(`column "recipe_id" must not be listed`);
+  });
+});
+
+describe("generated table tools", () => {
+  const tools = toolsByName(recipes);
+
+  it("lists only the caller's rows, with IS NULL for null filters", async () => {
+    const { result, queries } = await call(tools.list_recipes, { title: "Curry", memo: null, limit: 5 });
+    expect(result.isError).toBeFalsy();
+    expect(queries).toEqual([
+      [
+        ["from", "recipes"],
+        ["select", "*"],
+        ["eq", "user_id", USER_ID],
+        ["eq", "title", "Curry"],
+        ["is", "memo", null],
+        ["range", 0, 4],
+      ],
+    ]);
+  });
+
+  it("gets a row by primary key and owner", async () => {
+    const { queries } = await call(tools.get_recipes, { id: 7 }, { id: 7 });
+    expect(queries[0]).toEqual([
+      ["from", "recipes"],
+      ["select", "*"],
+      ["eq", "id", 7],
+      ["eq", "user_id", USER_ID],
+      ["maybeSingle"],
+    ]);
+  });
+
+  it("creates rows owned by the caller", async () => {
+    const { queries } = await call(tools.create_recipes, { title: "Curry", memo: null }, { id: 1 });
+    expect(queries[0]).toContainEqual(["insert", { title: "Curry", memo: null, user_id: USER_ID }]);
+  });
+
+  it("updates only the given fields of the caller's row", async () => {
+    const { queries } = await call(tools.update_recipes, { id: 7, title: "Stew" }, { id: 7 });
+    expect(queries[0]).toEqual([
+      ["from", "recipes"],
+      ["update", { title: "Stew" }],
+      ["eq", "id", 7],
+      ["eq", "user_id", USER_ID],
+      ["select"],
+      ["maybeSingle"],
+    ]);
+  });
+
+  it("deletes a row by primary key and owner", async () => {
+    const { result, queries } = await call(tools.delete_recipes, { id: 7 }, [{ id: 7 }]);
+    expect(result.isError).toBeFalsy();
+    expect(queries[0]).toEqual([
+      ["from", "recipes"],
+      ["delete"],
+      ["eq", "id", 7],
+      ["eq", "user_id", USER_ID],
+      ["select"],
+    ]);
+  });
+
+  it("reports a row the caller does not own as not found", async () => {
+    const { result } = await call(tools.delete_recipes, { id: 7 }, []);
+    expect(result.isError).toBe(true);
+  });
+});
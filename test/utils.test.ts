@@ -0,0 +1,139 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { base64UrlEncode, signHs256Jwt } from "../src/jwt";
+import type { Logger } from "../src/logger";
+import { verifyLineIdToken } from "../src/utils";
+
+const CHANNEL_ID = "1234567890";
+const CHANNEL_SECRET = "test-channel-secret";
+const NONCE = "test-nonce";
+
+const silent: Logger = { info() {}, warn() {}, error() {}, child: () => silent };
+
+function claims(overrides: Record<string, unknown> = {}) {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    iss: "https://access.line.me",
+    sub: "U0123456789abcdef0123456789abcdef",
+    aud: CHANNEL_ID,
+    exp: now + 3600,
+    iat: now,
+    nonce: NONCE,
+    name: "Test User",
+    ...overrides,
+  };
+}
+
+async function signEs256Jwt(payload: Record<string, unknown>, privateKey: CryptoKey, kid: string) {
+  const header = base64UrlEncode(JSON.stringify({ alg: "ES256", typ: "JWT", kid }));
+  const body = base64UrlEncode(JSON.stringify(payload));
+  const sig = await crypto.subtle.sign(
+    { name: "ECDSA", hash: "SHA-256" },
+    privateKey,
+    new TextEncoder().encode(`${header}.${body}`),
+  );
+  return `${header}.${body}.${base64UrlEncode(new Uint8Array(sig))}`;
+}
+
+function verify(idToken: string, options: { jwks?: JsonWebKey[]; nonce?: string } = {}) {
+  return verifyLineIdToken(idToken, {
+    channelId: CHANNEL_ID,
+    channelSecret: CHANNEL_SECRET,
+    nonce: options.nonce ?? NONCE,
+    jwks: options.jwks ?? [],
+    log: silent,
+  });
+}
+
+describe("verifyLineIdToken", () => {
+  describe("ES256 (LINE SDK tokens)", () => {
+    let privateKey: CryptoKey;
+    let jwks: JsonWebKey[];
+
+    beforeAll(async () => {
+      const keyPair = (await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, true, [
+        "sign",
+        "verify",
+      ])) as CryptoKeyPair;
+      privateKey = keyPair.privateKey;
+      const publicJwk = (await crypto.subtle.exportKey("jwk", keyPair.publicKey)) as JsonWebKey;
+      jwks = [{ ...publicJwk, kid: "test-key" } as JsonWebKey];
+    });
+
+    it("accepts a valid token", async () => {
+      const token = await signEs256Jwt(claims(), privateKey, "test-key");
+      expect(await verify(token, { jwks })).toMatchObject({ sub: claims().sub, aud: CHANNEL_ID });
+    });
+
+    it("rejects a bad signature", async () => {
+      const token = await signEs256Jwt(claims(), privateKey, "test-key");
+      const [header, , signature] = token.split(".");
+      const tampered = `${header}.${base64UrlEncode(JSON.stringify(claims({ sub: "Uattacker" })))}.${signature}`;
+      expect(await verify(tampered, { jwks })).toBeNull();
+    });
+
+    it("rejects a token signed with an unknown key", async () => {
+      const token = await signEs256Jwt(claims(), privateKey, "other-key");
+      expect(await verify(token, { jwks })).toBeNull();
+    });
+
+    it("rejects the wrong issuer", async () => {
+      const token = await signEs256Jwt(claims({ iss: "https://evil.example.com" }), privateKey, "test-key");
+      expect(await verify(token, { jwks })).toBeNull();
+    });
+
+    it("rejects the wrong audience", async () => {
+      const token = await signEs256Jwt(claims({ aud: "9999999999" }), privateKey, "test-key");
+      expect(await verify(token, { jwks })).toBeNull();
+    });
+
+    it("rejects an expired token", async () => {
+      const token = await signEs256Jwt(
+        claims({ exp: Math.floor(Date.now() / 1000) - 1 }),
+        privateKey,
+        "test-key",
+      );
+      expect(await verify(token, { jwks })).toBeNull();
+    });
+
+    it("rejects a nonce mismatch", async () => {
+      const token = await signEs256Jwt(claims(), privateKey, "test-key");
+      expect(await verify(token, { jwks, nonce: "other-nonce" })).toBeNull();
+    });
+  });
+
+  describe("HS256 (web login tokens)", () => {
+    it("accepts a token signed with the channel secret", async () => {
+      const token = await signHs256Jwt(claims(), CHANNEL_SECRET);
+      expect(await verify(token)).toMatchObject({ sub: claims().sub, nonce: NONCE });
+    });
+
+    it("rejects a token signed with another secret", async () => {
+      const token = await signHs256Jwt(claims(), "wrong-secret");
+      expect(await verify(token)).toBeNull();
+    });
+
+    it("rejects the wrong issuer", async () => {
+      const token = await signHs256Jwt(claims({ iss: "https://evil.example.com" }), CHANNEL_SECRET);
+      expect(await verify(token)).toBeNull();
+    });
+
+    it("rejects the wrong audience", async () => {
+      const token = await signHs256Jwt(claims({ aud: "9999999999" }), CHANNEL_SECRET);
+      expect(await verify(token)).toBeNull();
+    });
+
+    it("rejects an expired token", async () => {
+      const token = await signHs256Jwt(claims({ exp: Math.floor(Date.now() / 1000) - 1 }), CHANNEL_SECRET);
+      expect(await verify(token)).toBeNull();
+    });
+
+    it("rejects a nonce mismatch", async () => {
+      const token = await signHs256Jwt(claims(), CHANNEL_SECRET);
+      expect(await verify(token, { nonce: "other-nonce" })).toBeNull();
+    });
+  });
+
+  it("rejects a malformed token", async () => {
+    expect(await verify("not-a-jwt")).toBeNull();
+  });
+});
@@ -1,10 +1,60 @@
 interface Env {
   MCP_OBJECT: DurableObjectNamespace;
-  OAUTH_KV: KVNamespace;
+  OAUTH_KV: OAuthKVNamespace;
+  METRICS?: AnalyticsEngineDataset;
+  TENANT_KV?: KVNamespace;
   SUPABASE_URL: string;
   SUPABASE_ANON_KEY: string;
   LINE_CHANNEL_ID: string;
   LINE_CHANNEL_SECRET: string;
-  COMMON_PASSWORD_PREFIX: string;
+  LINE_AUTH_BASE_URL?: string;
+  LINE_API_BASE_URL?: string;
+  MOCK_LINE?: string;
+  MOCK_LINE_USERS?: string;
+  MOCK_LINE_AUTO_LOGIN?: string;
+  AUTH_STRATEGY?: "password" | "jwt" | "service_role";
+  COMMON_PASSWORD_PREFIX?: string;
+  SUPABASE_JWT_SECRET?: string;
+  SUPABASE_SERVICE_ROLE_KEY?: string;
+  LINE_USER_TABLE?: string;
+  PROVISIONING?: "none" | "service_role" | "edge_function";
+  PROVISIONING_FUNCTION?: string;
   COOKIE_ENCRYPTION_KEY: string;
+  COOKIE_PREVIOUS_KEYS?: string;
+  ENCRYPT_COOKIES?: string;
+  PROMPT_TEMPLATE_TABLE?: string;
+  AUDIT_LOG_TABLE?: string;
+  ADMIN_API_TOKEN?: string;
+  RATE_LIMITS?: string;
+  USER_PLAN_TABLE?: string;
+  LINE_MESSAGING_CHANNEL_ACCESS_TOKEN?: string;
+  LINE_MESSAGING_API_BASE_URL?: string;
+  LINE_MESSAGING_CHANNEL_SECRET?: string;
+  REVOKE_GRANTS_ON_UNFOLLOW?: string;
+  CONSENT_TTL_DAYS?: string;
+  OIDC_ISSUER?: string;
+  OIDC_CLIENT_ID?: string;
+  OIDC_CLIENT_SECRET?: string;
+  OIDC_SCOPES?: string;
+  OIDC_LABEL?: string;
+  IDENTITY_LINK_TABLE?: string;
+  SERVER_NAME?: string;
+  SERVER_DESCRIPTION?: string;
+  SERVER_LOGO_URL?: string;
+  ENABLED_TOOLS?: string;
+  TENANT_ID?: string;
+  BASE_PATH?: string;
+}
+
+/**
+ * The KV operations used on OAUTH_KV, here and by the OAuth provider. A KVNamespace binding
+ * satisfies it; tenants get a view with their keys under a prefix (see tenants.ts).
+ */
+interface OAuthKVNamespace {
+  get(key: string): Promise<string | null>;
+  get<ExpectedValue = unknown>(key: string, type: "json"): Promise<ExpectedValue | null>;
+  get<ExpectedValue = unknown>(key: string, options: { type: "json" }): Promise<ExpectedValue | null>;
+  put(key: string, value: string, options?: KVNamespacePutOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+  list<Metadata = unknown>(options?: KVNamespaceListOptions): Promise<KVNamespaceListResult<Metadata>>;
 }